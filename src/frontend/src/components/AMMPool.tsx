@@ -0,0 +1,260 @@
+import { useEffect, useRef, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertCircle, Droplets, RefreshCw } from 'lucide-react';
+import { Token } from '@/pages/Dashboard';
+import { fetchAllAccountLines, fetchAMMInfo, validateXRPLAddress, type AMMInfo, type BookAsset } from '@/lib/xrpl';
+import { ammFeePercent, findLPPositions, orientPool, type LPPosition } from '@/lib/amm';
+import { XRP_ASSET, assetKey, assetLabel, counterAssets } from '@/lib/assetPairs';
+import { formatIOU, formatLedgerAmount } from '@/lib/amount';
+import { Currency } from '@/lib/currency';
+import { formatPrice } from '@/lib/orderBook';
+import { getWalletLabel, loadMonitoredWallets } from '@/lib/wallets';
+import { useAccountUpdates } from '@/hooks/useLedgerStream';
+import { isAbortError } from '@/lib/scheduler';
+import { describeXRPLError } from '@/lib/xrplErrors';
+
+interface AMMPoolProps {
+  token: Token;
+}
+
+interface LoadOptions {
+  // Refresh in place without replacing the pool with a skeleton
+  silent?: boolean;
+}
+
+function AMMPool({ token }: AMMPoolProps) {
+  const [counters] = useState(() => counterAssets(token.currency, token.issuer));
+  const [monitoredWallets] = useState(loadMonitoredWallets);
+  const [counterKey, setCounterKey] = useState(assetKey(XRP_ASSET));
+  // undefined until loaded; null when the pair has no pool
+  const [pool, setPool] = useState<AMMInfo | null | undefined>(undefined);
+  const [positions, setPositions] = useState<LPPosition[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const loadControllerRef = useRef<AbortController | null>(null);
+
+  const base: BookAsset = { currency: token.currency, issuer: token.issuer };
+  const counter = counters.find(asset => assetKey(asset) === counterKey) ?? XRP_ASSET;
+  const baseLabel = assetLabel(base);
+  const counterLabel = assetLabel(counter);
+
+  const loadPool = async ({ silent = false }: LoadOptions = {}) => {
+    loadControllerRef.current?.abort();
+    const controller = new AbortController();
+    loadControllerRef.current = controller;
+
+    console.log(`[AMMPool] Loading ${baseLabel}/${counterLabel} pool`);
+
+    try {
+      if (!silent) {
+        setLoading(true);
+        setError(null);
+      }
+
+      const options = { signal: controller.signal, priority: silent ? 'low' : 'normal' } as const;
+      const [info, walletLines] = await Promise.all([
+        fetchAMMInfo(base, counter, options),
+        Promise.all(monitoredWallets.filter(wallet => validateXRPLAddress(wallet.address)).map(async wallet => {
+          try {
+            return { wallet, lines: await fetchAllAccountLines(wallet.address, options) };
+          } catch (walletError) {
+            if (isAbortError(walletError)) throw walletError;
+            // A wallet we can't read simply shows no LP position
+            console.error(`[AMMPool] Failed to load trust lines for ${wallet.name}:`, walletError);
+            return { wallet, lines: [] };
+          }
+        }))
+      ]);
+
+      setPool(info);
+      setPositions(info ? findLPPositions(info, walletLines) : []);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error('[AMMPool] Error loading AMM pool:', err);
+      if (!silent) {
+        setError(describeXRPLError(err, 'Failed to load AMM pool'));
+      }
+    } finally {
+      if (loadControllerRef.current === controller) {
+        setLoading(false);
+      }
+    }
+  };
+
+  useEffect(() => {
+    loadPool();
+  }, [token, counterKey]);
+
+  useEffect(() => () => loadControllerRef.current?.abort(), []);
+
+  useAccountUpdates(pool ? [pool.account] : [], () => {
+    console.log(`[AMMPool] Ledger update for pool ${pool?.account} - refreshing`);
+    loadPool({ silent: true });
+  });
+
+  const header = (
+    <div className="flex items-center justify-between gap-3 mb-4">
+      <div className="flex items-center gap-2">
+        <Droplets className="h-5 w-5 text-chart-2" />
+        <h3 className="font-semibold text-lg">AMM Pool</h3>
+      </div>
+      <div className="flex items-center gap-2">
+        <Select value={counterKey} onValueChange={setCounterKey}>
+          <SelectTrigger className="h-9 w-[10rem]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {counters.map((asset) => (
+              <SelectItem key={assetKey(asset)} value={assetKey(asset)}>
+                {baseLabel}/{assetLabel(asset)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button onClick={() => loadPool()} variant="ghost" size="sm" disabled={loading}>
+          <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+        </Button>
+      </div>
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <div>
+        {header}
+        <Skeleton className="h-40 w-full" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div>
+        {header}
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Error Loading AMM Pool</AlertTitle>
+          <AlertDescription className="space-y-2">
+            <p className="text-sm">{error}</p>
+            <Button onClick={() => loadPool()} variant="outline" size="sm">
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Retry
+            </Button>
+          </AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  if (!pool) {
+    return (
+      <div>
+        {header}
+        <Alert>
+          <Droplets className="h-4 w-4" />
+          <AlertDescription>
+            There is no AMM pool for {baseLabel}/{counterLabel}.
+          </AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  const { baseAmount, counterAmount, price } = orientPool(pool, base);
+  const auction = pool.auction_slot;
+  const voteSlots = pool.vote_slots ?? [];
+
+  const figures = [
+    { label: `${baseLabel} Reserve`, value: formatLedgerAmount(baseAmount) },
+    { label: `${counterLabel} Reserve`, value: formatLedgerAmount(counterAmount) },
+    { label: 'Implied Price', value: `${formatPrice(price)} ${counterLabel}` },
+    { label: 'Trading Fee', value: `${ammFeePercent(pool.trading_fee)}%` }
+  ];
+
+  return (
+    <div className="space-y-4">
+      {header}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {figures.map((figure) => (
+          <div key={figure.label} className="p-3 rounded-lg border border-border/50">
+            <p className="text-xs text-muted-foreground">{figure.label}</p>
+            <p className="text-lg font-bold break-all">{figure.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+        <dt className="text-muted-foreground">Pool account</dt>
+        <dd className="font-mono text-xs break-all">{pool.account}</dd>
+        <dt className="text-muted-foreground">LP token supply</dt>
+        <dd>{formatIOU(pool.lp_token.value)} {Currency.fromLedger(pool.lp_token.currency).display()}</dd>
+        <dt className="text-muted-foreground">LP currency code</dt>
+        <dd className="font-mono text-xs break-all">{pool.lp_token.currency}</dd>
+        <dt className="text-muted-foreground">Auction slot</dt>
+        <dd>
+          {auction ? (
+            <>
+              <span className="font-mono text-xs">{getWalletLabel(auction.account)}</span>
+              <span className="text-xs text-muted-foreground">
+                {' '}· {ammFeePercent(auction.discounted_fee)}% fee until {new Date(auction.expiration).toLocaleString()}
+                {' '}· paid {formatIOU(auction.price.value)} LP
+              </span>
+            </>
+          ) : (
+            <span className="text-muted-foreground">Unclaimed</span>
+          )}
+        </dd>
+      </dl>
+
+      <div>
+        <p className="text-xs text-muted-foreground uppercase tracking-wide mb-2">
+          Fee Votes ({voteSlots.length})
+        </p>
+        {voteSlots.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No fee votes.</p>
+        ) : (
+          <div className="space-y-1">
+            {voteSlots.map((slot) => (
+              <div key={slot.account} className="flex items-center justify-between gap-3 text-sm p-2 rounded-lg bg-muted/30">
+                <span className="font-mono text-xs truncate">{getWalletLabel(slot.account)}</span>
+                <span className="flex items-center gap-2 shrink-0">
+                  <Badge variant="outline" className="text-xs">{ammFeePercent(slot.trading_fee)}% fee</Badge>
+                  <span className="text-xs text-muted-foreground">{ammFeePercent(slot.vote_weight)}% weight</span>
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <p className="text-xs text-muted-foreground uppercase tracking-wide mb-2">Monitored Wallets' LP Share</p>
+        {positions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">None of the monitored wallets hold LP tokens for this pool.</p>
+        ) : (
+          <div className="space-y-1">
+            {positions.map((position) => (
+              <div
+                key={position.wallet.address}
+                className="flex items-center justify-between gap-3 text-sm p-2 rounded-lg border border-border/50"
+              >
+                <span className="font-semibold truncate">{position.wallet.name}</span>
+                <span className="text-right shrink-0">
+                  {formatIOU(position.balance)} LP
+                  <span className="text-xs text-muted-foreground ml-2">{(position.share * 100).toFixed(4)}%</span>
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default AMMPool;
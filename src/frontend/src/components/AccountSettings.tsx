@@ -0,0 +1,115 @@
+import { Badge } from '@/components/ui/badge';
+import { CheckCircle2, Circle } from 'lucide-react';
+import { decodeAccountSettings, type DecodedAccountFlag } from '@/lib/accountSettings';
+import type { AccountInfo } from '@/lib/xrpl';
+
+interface AccountSettingsProps {
+  accountInfo: AccountInfo;
+}
+
+function FlagRow({ flag }: { flag: DecodedAccountFlag }) {
+  return (
+    <div className="flex items-start gap-3 p-3 rounded-lg border border-border/50">
+      {flag.enabled ? (
+        <CheckCircle2 className="h-4 w-4 mt-0.5 shrink-0 text-chart-3" />
+      ) : (
+        <Circle className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+      )}
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center justify-between gap-2">
+          <p className="font-semibold text-sm">{flag.label}</p>
+          <Badge variant={flag.enabled ? 'default' : 'outline'} className="text-xs">
+            {flag.enabled ? 'On' : 'Off'}
+          </Badge>
+        </div>
+        <p className="text-xs text-muted-foreground">{flag.description}</p>
+      </div>
+    </div>
+  );
+}
+
+function AccountSettings({ accountInfo }: AccountSettingsProps) {
+  const settings = decodeAccountSettings(accountInfo);
+  const issuerFlags = settings.flags.filter(flag => flag.issuer);
+  // Most other flags are off for most accounts, so only list the ones that are set
+  const otherFlags = settings.flags.filter(flag => !flag.issuer && flag.enabled);
+
+  const details: { label: string; value: string }[] = [
+    { label: 'Domain', value: settings.domain ?? 'Not set' },
+    { label: 'Transfer fee', value: settings.transferFee },
+    { label: 'Tick size', value: settings.tickSize !== null ? `${settings.tickSize} significant digits` : 'Default' },
+    { label: 'Regular key', value: settings.regularKey ?? 'Not set' },
+    { label: 'Email hash', value: settings.emailHash ?? 'Not set' },
+    { label: 'Raw flags', value: `0x${(accountInfo.Flags >>> 0).toString(16).toUpperCase().padStart(8, '0')}` }
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="font-semibold text-sm text-muted-foreground uppercase tracking-wide mb-3">
+          Issuer Settings
+        </h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          {issuerFlags.map((flag) => (
+            <FlagRow key={flag.name} flag={flag} />
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <h3 className="font-semibold text-sm text-muted-foreground uppercase tracking-wide mb-3">
+          Other Flags
+        </h3>
+        {otherFlags.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No other account flags are set.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {otherFlags.map((flag) => (
+              <FlagRow key={flag.name} flag={flag} />
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <h3 className="font-semibold text-sm text-muted-foreground uppercase tracking-wide mb-3">
+          Account Fields
+        </h3>
+        <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+          {details.map((detail) => (
+            <div key={detail.label} className="contents">
+              <dt className="text-muted-foreground">{detail.label}</dt>
+              <dd className="font-mono break-all">{detail.value}</dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+
+      <div>
+        <h3 className="font-semibold text-sm text-muted-foreground uppercase tracking-wide mb-3">
+          Signer List
+        </h3>
+        {settings.signerList ? (
+          <div className="space-y-2">
+            <p className="text-sm">
+              Quorum: <span className="font-semibold">{settings.signerList.SignerQuorum}</span>
+            </p>
+            {settings.signerList.SignerEntries.map(({ SignerEntry }) => (
+              <div
+                key={SignerEntry.Account}
+                className="flex items-center justify-between gap-3 p-2 rounded-lg border border-border/50 text-sm"
+              >
+                <span className="font-mono text-xs truncate">{SignerEntry.Account}</span>
+                <Badge variant="secondary">Weight {SignerEntry.SignerWeight}</Badge>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No signer list; only this account's keys can sign.</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default AccountSettings;
@@ -0,0 +1,116 @@
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, Save } from 'lucide-react';
+import { getNetworkProfiles, saveCustomEndpoints, setActiveNetwork } from '@/lib/networks';
+import { toast } from 'sonner';
+
+interface CustomNetworkDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function parseUrlList(text: string): string[] {
+  return text
+    .split(/[\s,]+/)
+    .map(url => url.trim())
+    .filter(Boolean);
+}
+
+function CustomNetworkDialog({ open, onOpenChange }: CustomNetworkDialogProps) {
+  const [jsonRpcText, setJsonRpcText] = useState('');
+  const [webSocketText, setWebSocketText] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      const custom = getNetworkProfiles().find(profile => profile.id === 'custom');
+      setJsonRpcText(custom?.jsonRpcServers.join('\n') ?? '');
+      setWebSocketText(custom?.webSocketServers.join('\n') ?? '');
+      setError('');
+    }
+  }, [open]);
+
+  const handleSave = () => {
+    try {
+      saveCustomEndpoints({
+        jsonRpcServers: parseUrlList(jsonRpcText),
+        webSocketServers: parseUrlList(webSocketText)
+      });
+      setActiveNetwork('custom');
+      toast.success('Connected to custom network');
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save custom endpoints');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Custom Network</DialogTitle>
+          <DialogDescription>
+            Point the dashboard at your own rippled or Clio node. Enter one URL per line.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid gap-2">
+            <Label htmlFor="custom-rpc">JSON-RPC Endpoints *</Label>
+            <Textarea
+              id="custom-rpc"
+              placeholder="http://localhost:5005"
+              value={jsonRpcText}
+              onChange={(e) => setJsonRpcText(e.target.value)}
+              className="font-mono text-xs"
+            />
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="custom-ws">WebSocket Endpoints (Optional)</Label>
+            <Textarea
+              id="custom-ws"
+              placeholder="ws://localhost:6006"
+              value={webSocketText}
+              onChange={(e) => setWebSocketText(e.target.value)}
+              className="font-mono text-xs"
+            />
+            <p className="text-xs text-muted-foreground">
+              Without a WebSocket endpoint, views only update when refreshed.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave}>
+            <Save className="h-4 w-4 mr-2" />
+            Save & Connect
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default CustomNetworkDialog;
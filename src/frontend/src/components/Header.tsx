@@ -1,6 +1,9 @@
 import { Wallet, Moon, Sun, Rocket, Settings } from 'lucide-react';
 import { useTheme } from 'next-themes';
 import { Button } from '@/components/ui/button';
+import LedgerStatus from '@/components/LedgerStatus';
+import ServerPoolStatus from '@/components/ServerPoolStatus';
+import NetworkSelector from '@/components/NetworkSelector';
 
 interface HeaderProps {
   onPublish?: () => void;
@@ -26,6 +29,10 @@ function Header({ onPublish, isPublishing = false, onOpenSettings }: HeaderProps
           </div>
 
           <div className="flex items-center gap-2">
+            <NetworkSelector />
+            <LedgerStatus />
+            <ServerPoolStatus />
+
             {onOpenSettings && (
               <Button
                 variant="outline"
@@ -0,0 +1,73 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { RotateCcw, Save } from 'lucide-react';
+import {
+  DEFAULT_IPFS_GATEWAY,
+  clearNFTMetadataCache,
+  loadIpfsGateway,
+  resetIpfsGateway,
+  saveIpfsGateway,
+} from '@/lib/nftMetadata';
+import { toast } from 'sonner';
+
+interface IpfsGatewaySectionProps {
+  open: boolean;
+}
+
+function IpfsGatewaySection({ open }: IpfsGatewaySectionProps) {
+  const [gateway, setGateway] = useState(loadIpfsGateway);
+
+  useEffect(() => {
+    if (open) {
+      setGateway(loadIpfsGateway());
+    }
+  }, [open]);
+
+  const handleSave = () => {
+    try {
+      setGateway(saveIpfsGateway(gateway));
+      // Retry failed lookups through the new gateway
+      clearNFTMetadataCache();
+      toast.success('IPFS gateway saved');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save IPFS gateway');
+    }
+  };
+
+  const handleReset = () => {
+    resetIpfsGateway();
+    clearNFTMetadataCache();
+    setGateway(DEFAULT_IPFS_GATEWAY);
+    toast.success('IPFS gateway reset to default');
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <h3 className="font-semibold text-sm">IPFS Gateway</h3>
+        <p className="text-xs text-muted-foreground">
+          NFT metadata and images stored on IPFS are loaded through this gateway. The content ID is appended to it.
+        </p>
+      </div>
+      <div className="flex gap-2">
+        <Input
+          placeholder={DEFAULT_IPFS_GATEWAY}
+          value={gateway}
+          onChange={(e) => setGateway(e.target.value)}
+          className="font-mono text-sm"
+        />
+        <Button onClick={handleSave} size="sm" variant="outline" className="h-9">
+          <Save className="h-4 w-4 mr-2" />
+          Save
+        </Button>
+        <Button onClick={handleReset} size="sm" variant="ghost" className="h-9">
+          <RotateCcw className="h-4 w-4 mr-2" />
+          Default
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default IpfsGatewaySection;
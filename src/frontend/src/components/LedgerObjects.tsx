@@ -0,0 +1,203 @@
+import { useEffect, useRef, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertCircle, Boxes, RefreshCw } from 'lucide-react';
+import { fetchAllAccountObjects, fetchReserves, type ReserveSettings } from '@/lib/xrpl';
+import {
+  describeLedgerObject,
+  formatReserve,
+  groupLedgerObjects,
+  ownerReserveUnits,
+  type LedgerObject
+} from '@/lib/ledgerObjects';
+import { isAbortError } from '@/lib/scheduler';
+import { describeXRPLError } from '@/lib/xrplErrors';
+import { useAccountUpdates } from '@/hooks/useLedgerStream';
+import type { ClassicAddress } from '@/lib/addressCodec';
+
+interface LedgerObjectsProps {
+  walletAddress: ClassicAddress;
+  // OwnerCount from the account root, to check the objects against
+  ownerCount: number | null;
+}
+
+interface LoadOptions {
+  // Refresh in place without replacing the list with skeletons
+  silent?: boolean;
+}
+
+function LedgerObjects({ walletAddress, ownerCount }: LedgerObjectsProps) {
+  const [objects, setObjects] = useState<LedgerObject[]>([]);
+  const [reserves, setReserves] = useState<ReserveSettings | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const loadControllerRef = useRef<AbortController | null>(null);
+
+  const loadObjects = async ({ silent = false }: LoadOptions = {}) => {
+    loadControllerRef.current?.abort();
+    const controller = new AbortController();
+    loadControllerRef.current = controller;
+
+    console.log(`[LedgerObjects] Loading ledger objects for ${walletAddress}`);
+
+    try {
+      if (!silent) {
+        setLoading(true);
+        setError(null);
+      }
+
+      const options = { signal: controller.signal, priority: silent ? 'low' : 'high' } as const;
+      const [objectList, reserveSettings] = await Promise.all([
+        fetchAllAccountObjects(walletAddress, options),
+        fetchReserves(options)
+      ]);
+
+      setObjects(objectList);
+      setReserves(reserveSettings);
+      console.log(`[LedgerObjects] Loaded ${objectList.length} objects`);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error('[LedgerObjects] Error loading ledger objects:', err);
+      if (!silent) {
+        setError(describeXRPLError(err, 'Failed to load ledger objects'));
+      }
+    } finally {
+      if (loadControllerRef.current === controller) {
+        setLoading(false);
+      }
+    }
+  };
+
+  useEffect(() => {
+    loadObjects();
+  }, [walletAddress]);
+
+  useEffect(() => () => loadControllerRef.current?.abort(), []);
+
+  useAccountUpdates([walletAddress], () => {
+    console.log(`[LedgerObjects] Ledger update for ${walletAddress} - refreshing objects`);
+    loadObjects({ silent: true });
+  });
+
+  if (loading) {
+    return (
+      <div className="space-y-2">
+        {[1, 2, 3].map((i) => (
+          <Skeleton key={i} className="h-14 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertTitle>Error Loading Ledger Objects</AlertTitle>
+        <AlertDescription className="space-y-3 mt-2">
+          <p>{error}</p>
+          <Button onClick={() => loadObjects()} variant="outline" size="sm">
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Retry Loading
+          </Button>
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (objects.length === 0) {
+    return (
+      <Alert>
+        <Boxes className="h-4 w-4" />
+        <AlertTitle>No Ledger Objects</AlertTitle>
+        <AlertDescription>
+          This wallet doesn't own any offers, escrows, checks, channels, tickets or other ledger objects.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  const groups = groupLedgerObjects(objects, walletAddress);
+  const totalUnits = groups.reduce((sum, group) => sum + group.reserveUnits, 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-3">
+        <div className="p-3 rounded-lg border border-border/50">
+          <p className="text-xs text-muted-foreground">Objects</p>
+          <p className="text-xl font-bold">{objects.length}</p>
+        </div>
+        <div className="p-3 rounded-lg border border-border/50">
+          <p className="text-xs text-muted-foreground">Owner Count</p>
+          <p className="text-xl font-bold">{ownerCount ?? '—'}</p>
+        </div>
+        <div className="p-3 rounded-lg border border-border/50">
+          <p className="text-xs text-muted-foreground">Reserve Tied Up</p>
+          <p className="text-xl font-bold">
+            {reserves ? formatReserve(ownerCount ?? totalUnits, reserves.incrementDrops) : '—'}
+          </p>
+        </div>
+      </div>
+
+      {ownerCount !== null && ownerCount !== totalUnits && (
+        <p className="text-xs text-muted-foreground">
+          The objects below account for {totalUnits} of this wallet's {ownerCount} owner reserves.
+        </p>
+      )}
+
+      <Accordion type="multiple" className="rounded-lg border border-border/50 px-3">
+        {groups.map((group) => (
+          <AccordionItem key={group.type} value={group.type}>
+            <AccordionTrigger className="hover:no-underline">
+              <div className="flex flex-1 items-center justify-between gap-3 pr-2">
+                <span className="flex items-center gap-2">
+                  {group.label}
+                  <Badge variant="secondary">{group.objects.length}</Badge>
+                </span>
+                <span className="text-xs text-muted-foreground font-normal">
+                  {reserves ? formatReserve(group.reserveUnits, reserves.incrementDrops) : `${group.reserveUnits} reserves`}
+                </span>
+              </div>
+            </AccordionTrigger>
+            <AccordionContent className="space-y-2">
+              {group.objects.map((object) => {
+                const { title, fields } = describeLedgerObject(object, walletAddress);
+                const units = ownerReserveUnits(object, walletAddress);
+                return (
+                  <div key={object.index} className="p-3 rounded-lg bg-muted/30 border border-border/30">
+                    <div className="flex items-start justify-between gap-3 mb-1">
+                      <p className="font-semibold text-sm break-all">{title}</p>
+                      <Badge variant="outline" className="text-xs shrink-0">
+                        {units === 0
+                          ? 'No reserve'
+                          : reserves ? formatReserve(units, reserves.incrementDrops) : `${units} reserve${units === 1 ? '' : 's'}`}
+                      </Badge>
+                    </div>
+                    {fields.length > 0 && (
+                      <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 text-xs">
+                        {fields.map((field) => (
+                          <div key={`${field.label}-${field.value}`} className="contents">
+                            <dt className="text-muted-foreground">{field.label}</dt>
+                            <dd className="font-mono break-all">{field.value}</dd>
+                          </div>
+                        ))}
+                      </dl>
+                    )}
+                    <p className="text-xs text-muted-foreground font-mono truncate mt-1" title={object.index}>
+                      {object.index}
+                    </p>
+                  </div>
+                );
+              })}
+            </AccordionContent>
+          </AccordionItem>
+        ))}
+      </Accordion>
+    </div>
+  );
+}
+
+export default LedgerObjects;
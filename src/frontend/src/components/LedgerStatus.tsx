@@ -0,0 +1,31 @@
+import { Radio } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { useLedgerStream } from '@/hooks/useLedgerStream';
+
+const CONNECTION_LABELS = {
+  idle: 'Offline',
+  connecting: 'Connecting',
+  connected: 'Live',
+  reconnecting: 'Reconnecting'
+} as const;
+
+function LedgerStatus() {
+  const { connection, ledgerIndex, ledgerTime } = useLedgerStream();
+  const isLive = connection === 'connected';
+
+  return (
+    <Badge
+      variant="outline"
+      className="gap-1.5 px-2.5 py-1 font-mono"
+      title={ledgerTime ? `Last ledger closed at ${ledgerTime.toLocaleTimeString()}` : 'Waiting for ledger stream'}
+    >
+      <Radio className={isLive ? 'text-chart-3 animate-pulse' : 'text-muted-foreground'} />
+      <span className="font-sans">{CONNECTION_LABELS[connection]}</span>
+      {isLive && ledgerIndex !== null && (
+        <span className="text-muted-foreground">#{ledgerIndex.toLocaleString()}</span>
+      )}
+    </Badge>
+  );
+}
+
+export default LedgerStatus;
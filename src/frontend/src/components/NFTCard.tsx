@@ -0,0 +1,151 @@
+import { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ChevronDown, ChevronUp, Image, ImageOff } from 'lucide-react';
+import NFTOfferList from '@/components/NFTOfferList';
+import { formatNFTTransferFee, type NFTDetails } from '@/lib/nfts';
+import { fetchNFTMetadata, type NFTMetadataResult } from '@/lib/nftMetadata';
+import type { NFTOfferBook } from '@/lib/nftOffers';
+import { isAbortError } from '@/lib/scheduler';
+
+interface NFTCardProps {
+  details: NFTDetails;
+  // undefined while loading or if the offers couldn't be fetched
+  offers?: NFTOfferBook;
+  offersLoading: boolean;
+}
+
+// Attributes beyond this are summarised as "+N more"
+const MAX_ATTRIBUTES = 6;
+
+function metadataNote(result: NFTMetadataResult): string | null {
+  switch (result.status) {
+    case 'no-uri':
+      return 'No URI set';
+    case 'unsupported':
+      return `Unsupported URI: ${result.uri}`;
+    case 'error':
+      return `Metadata unavailable: ${result.message}`;
+    default:
+      return null;
+  }
+}
+
+function NFTCard({ details, offers, offersLoading }: NFTCardProps) {
+  const { nft } = details;
+  // undefined while the metadata is loading
+  const [result, setResult] = useState<NFTMetadataResult | undefined>(undefined);
+  const [imageFailed, setImageFailed] = useState(false);
+  const [showOffers, setShowOffers] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setResult(undefined);
+    setImageFailed(false);
+
+    fetchNFTMetadata(nft.URI, { signal: controller.signal })
+      .then(setResult)
+      .catch((err) => {
+        if (isAbortError(err)) return;
+        console.error(`[NFTCard] Error loading metadata for ${nft.NFTokenID}:`, err);
+      });
+
+    return () => controller.abort();
+  }, [nft.NFTokenID, nft.URI]);
+
+  const metadata = result?.status === 'ok' ? result.metadata : null;
+  const note = result ? metadataNote(result) : null;
+  const attributes = metadata?.attributes ?? [];
+
+  return (
+    <div className="p-4 rounded-lg border border-border/50 hover:border-chart-2/50 hover:bg-accent/30 transition-all space-y-3">
+      <div className="flex gap-3">
+        <div className="h-20 w-20 shrink-0 rounded-md overflow-hidden bg-muted/40 flex items-center justify-center">
+          {result === undefined ? (
+            <Skeleton className="h-full w-full" />
+          ) : metadata?.image && !imageFailed ? (
+            <img
+              src={metadata.image}
+              alt={metadata.name ?? `NFT #${nft.nft_serial}`}
+              loading="lazy"
+              className="h-full w-full object-cover"
+              onError={() => setImageFailed(true)}
+            />
+          ) : (
+            <ImageOff className="h-6 w-6 text-muted-foreground" />
+          )}
+        </div>
+
+        <div className="min-w-0 flex-1">
+          <div className="flex items-center gap-2 mb-1">
+            <Image className="h-4 w-4 text-chart-2 shrink-0" />
+            <p className="font-semibold text-sm truncate">
+              {metadata?.name ?? `NFT #${nft.nft_serial}`}
+            </p>
+          </div>
+          {metadata?.description && (
+            <p className="text-xs text-muted-foreground line-clamp-2 mb-1">{metadata.description}</p>
+          )}
+          {note && (
+            <p className="text-xs text-muted-foreground italic break-all mb-1">{note}</p>
+          )}
+          {attributes.length > 0 && (
+            <div className="flex flex-wrap gap-1 mb-1">
+              {attributes.slice(0, MAX_ATTRIBUTES).map((attribute, index) => (
+                <Badge key={`${attribute.trait}-${index}`} variant="secondary" className="text-xs font-normal">
+                  {attribute.trait}: {attribute.value}
+                </Badge>
+              ))}
+              {attributes.length > MAX_ATTRIBUTES && (
+                <Badge variant="outline" className="text-xs font-normal">
+                  +{attributes.length - MAX_ATTRIBUTES} more
+                </Badge>
+              )}
+            </div>
+          )}
+          <p className="text-xs text-muted-foreground font-mono break-all mb-1">
+            {nft.NFTokenID}
+          </p>
+          <p className="text-xs text-muted-foreground mb-1">
+            Serial #{nft.nft_serial} · Taxon {nft.NFTokenTaxon} · Sequence {details.sequence} · Royalty {formatNFTTransferFee(details.transferFee)}
+          </p>
+          <div className="flex flex-wrap gap-1">
+            {details.flags.filter(flag => flag.enabled).map((flag) => (
+              <Badge key={flag.name} variant="outline" className="text-xs" title={flag.description}>
+                {flag.label}
+              </Badge>
+            ))}
+            {!details.transferable && (
+              <Badge variant="secondary" className="text-xs" title="Can only be sent back to the issuer">
+                Non-transferable
+              </Badge>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-xs"
+          disabled={!offers}
+          onClick={() => setShowOffers(!showOffers)}
+        >
+          {showOffers ? <ChevronUp className="h-3 w-3 mr-1" /> : <ChevronDown className="h-3 w-3 mr-1" />}
+          {offers
+            ? `Offers (${offers.sell.length} sell, ${offers.buy.length} buy)`
+            : offersLoading ? 'Loading offers…' : 'Offers unavailable'}
+        </Button>
+        {showOffers && offers && (
+          <div className="mt-2">
+            <NFTOfferList book={offers} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default NFTCard;
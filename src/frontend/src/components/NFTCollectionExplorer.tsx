@@ -0,0 +1,392 @@
+import { useEffect, useRef, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertCircle, ChevronLeft, ChevronRight, Layers, RefreshCw, Search, ServerCrash } from 'lucide-react';
+import {
+  fetchNFTInfo,
+  isClioUnsupportedError,
+  iterateNFTsByIssuer,
+  validateXRPLAddress,
+  type ClioNFT
+} from '@/lib/xrpl';
+import { analyzeOwnership, summarizeTaxa } from '@/lib/nftCollection';
+import { decodeNFTFlags, formatNFTTransferFee } from '@/lib/nfts';
+import { decodeNFTokenURI } from '@/lib/nftMetadata';
+import { toClassicAddress, type ClassicAddress } from '@/lib/addressCodec';
+import { getWalletLabel } from '@/lib/wallets';
+import { isAbortError } from '@/lib/scheduler';
+import { describeXRPLError } from '@/lib/xrplErrors';
+import { toast } from 'sonner';
+
+interface NFTCollectionExplorerProps {
+  issuer: string;
+  onWalletSelect: (wallet: ClassicAddress) => void;
+}
+
+const PAGE_SIZE = 50;
+const TOP_OWNERS = 10;
+
+function formatShare(share: number): string {
+  return `${(share * 100).toFixed(2)}%`;
+}
+
+function shortId(nftId: string): string {
+  return `${nftId.slice(0, 8)}…${nftId.slice(-8)}`;
+}
+
+// nft_info for one token, looked up by ID or by picking a row
+function NFTLookup({ nftId }: { nftId: string }) {
+  const [info, setInfo] = useState<ClioNFT | null | undefined>(undefined);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setInfo(undefined);
+    setError(null);
+
+    fetchNFTInfo(nftId, { signal: controller.signal, priority: 'high' })
+      .then(setInfo)
+      .catch((err) => {
+        if (isAbortError(err)) return;
+        console.error('[NFTCollection] Error looking up NFT:', err);
+        setError(isClioUnsupportedError(err)
+          ? 'NFT lookups need a Clio server. Add a Clio endpoint in the network settings.'
+          : describeXRPLError(err, 'Failed to look up NFT'));
+      });
+
+    return () => controller.abort();
+  }, [nftId]);
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertDescription>{error}</AlertDescription>
+      </Alert>
+    );
+  }
+  if (info === undefined) {
+    return <Skeleton className="h-24 w-full" />;
+  }
+  if (info === null) {
+    return (
+      <Alert>
+        <AlertCircle className="h-4 w-4" />
+        <AlertDescription>No NFT with ID {nftId} exists on this network.</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const flags = decodeNFTFlags(info.flags).filter(flag => flag.enabled);
+  const uri = decodeNFTokenURI(info.uri);
+
+  return (
+    <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm p-3 rounded-lg border border-border/50">
+      <dt className="text-muted-foreground">NFT ID</dt>
+      <dd className="font-mono text-xs break-all">{info.nft_id}</dd>
+      <dt className="text-muted-foreground">Status</dt>
+      <dd>
+        {info.is_burned
+          ? <Badge variant="destructive" className="text-xs">Burned</Badge>
+          : <Badge variant="secondary" className="text-xs">Live</Badge>}
+      </dd>
+      <dt className="text-muted-foreground">{info.is_burned ? 'Last owner' : 'Owner'}</dt>
+      <dd className="font-mono text-xs break-all">{getWalletLabel(info.owner)}</dd>
+      <dt className="text-muted-foreground">Issuer</dt>
+      <dd className="font-mono text-xs break-all">{getWalletLabel(info.issuer)}</dd>
+      <dt className="text-muted-foreground">Taxon / Serial</dt>
+      <dd>{info.nft_taxon} / #{info.nft_serial}</dd>
+      <dt className="text-muted-foreground">Royalty</dt>
+      <dd>{formatNFTTransferFee(info.transfer_fee)}</dd>
+      <dt className="text-muted-foreground">Flags</dt>
+      <dd>{flags.length > 0 ? flags.map(flag => flag.label).join(', ') : 'None'}</dd>
+      <dt className="text-muted-foreground">URI</dt>
+      <dd className="font-mono text-xs break-all">{uri ?? info.uri ?? '—'}</dd>
+      <dt className="text-muted-foreground">As of ledger</dt>
+      <dd>#{info.ledger_index}</dd>
+    </dl>
+  );
+}
+
+function NFTCollectionExplorer({ issuer, onWalletSelect }: NFTCollectionExplorerProps) {
+  const [nfts, setNfts] = useState<ClioNFT[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [scanned, setScanned] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [unsupported, setUnsupported] = useState(false);
+  const [taxon, setTaxon] = useState('all');
+  const [page, setPage] = useState(0);
+  const [lookupInput, setLookupInput] = useState('');
+  const [lookupId, setLookupId] = useState<string | null>(null);
+  const loadControllerRef = useRef<AbortController | null>(null);
+
+  // Large collections take many pages, so like the holder list this reloads
+  // on request rather than on every ledger update
+  const loadCollection = async () => {
+    loadControllerRef.current?.abort();
+    const controller = new AbortController();
+    loadControllerRef.current = controller;
+
+    if (!validateXRPLAddress(issuer)) {
+      setError(`Invalid issuer address: "${issuer}"`);
+      setLoading(false);
+      return;
+    }
+
+    console.log(`[NFTCollection] Loading NFTs issued by ${issuer}`);
+
+    try {
+      setLoading(true);
+      setError(null);
+      setUnsupported(false);
+      setScanned(0);
+
+      const all: ClioNFT[] = [];
+      for await (const pageNfts of iterateNFTsByIssuer(issuer, { signal: controller.signal, priority: 'normal' })) {
+        all.push(...pageNfts);
+        setScanned(all.length);
+      }
+
+      setNfts(all);
+      setPage(0);
+      console.log(`[NFTCollection] ${all.length} NFTs issued by ${issuer}`);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      if (isClioUnsupportedError(err)) {
+        console.log('[NFTCollection] Connected server is not a Clio server');
+        setUnsupported(true);
+        return;
+      }
+      console.error('[NFTCollection] Error loading NFTs:', err);
+      setError(describeXRPLError(err, 'Failed to load NFT collections'));
+    } finally {
+      if (loadControllerRef.current === controller) {
+        setLoading(false);
+      }
+    }
+  };
+
+  useEffect(() => {
+    setTaxon('all');
+    setLookupId(null);
+    loadCollection();
+  }, [issuer]);
+
+  useEffect(() => () => loadControllerRef.current?.abort(), []);
+
+  const handleLookup = () => {
+    const nftId = lookupInput.trim().toUpperCase();
+    if (!/^[0-9A-F]{64}$/.test(nftId)) {
+      toast.error('An NFT ID is 64 hexadecimal characters');
+      return;
+    }
+    setLookupId(nftId);
+  };
+
+  const header = (
+    <div className="flex items-center justify-between mb-4">
+      <div className="flex items-center gap-2">
+        <Layers className="h-5 w-5 text-chart-2" />
+        <h3 className="font-semibold text-lg">NFT Collections</h3>
+      </div>
+      <Button onClick={() => loadCollection()} variant="ghost" size="sm" disabled={loading}>
+        <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+      </Button>
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <div>
+        {header}
+        <Skeleton className="h-24 w-full mb-2" />
+        <p className="text-xs text-muted-foreground">
+          Scanned {scanned.toLocaleString()} NFTs…
+        </p>
+      </div>
+    );
+  }
+
+  if (unsupported) {
+    return (
+      <div>
+        {header}
+        <Alert>
+          <ServerCrash className="h-4 w-4" />
+          <AlertTitle>Clio Server Required</AlertTitle>
+          <AlertDescription>
+            The connected XRPL server doesn't support <code>nfts_by_issuer</code> and <code>nft_info</code>,
+            which only Clio servers provide. Add a Clio endpoint in the network settings to explore this issuer's NFT collections.
+          </AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div>
+        {header}
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Error Loading NFT Collections</AlertTitle>
+          <AlertDescription className="space-y-2">
+            <p className="text-sm">{error}</p>
+            <Button onClick={() => loadCollection()} variant="outline" size="sm">
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Retry
+            </Button>
+          </AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  if (nfts.length === 0) {
+    return (
+      <div>
+        {header}
+        <Alert>
+          <Layers className="h-4 w-4" />
+          <AlertDescription>This issuer hasn't minted any NFTs.</AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  const taxa = summarizeTaxa(nfts);
+  const collection = taxon === 'all' ? nfts : nfts.filter(nft => String(nft.nft_taxon) === taxon);
+  const { owners, stats } = analyzeOwnership(collection, issuer);
+  const sorted = [...collection].sort((a, b) => a.nft_serial - b.nft_serial);
+  const pageCount = Math.max(1, Math.ceil(sorted.length / PAGE_SIZE));
+  const pageNfts = sorted.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+
+  const figures = [
+    { label: 'Minted', value: stats.minted.toLocaleString() },
+    { label: 'Burned', value: stats.burned.toLocaleString() },
+    { label: 'Owners', value: stats.uniqueOwners.toLocaleString() },
+    { label: 'Held by Issuer', value: stats.heldByIssuer.toLocaleString() },
+    { label: 'Top Owner', value: formatShare(stats.topOwnerShare) },
+    { label: 'Top 10', value: formatShare(stats.top10Share) }
+  ];
+
+  return (
+    <div className="space-y-4">
+      {header}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={taxon} onValueChange={(value) => { setTaxon(value); setPage(0); }}>
+          <SelectTrigger className="h-9 w-[14rem]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All taxa ({nfts.length})</SelectItem>
+            {taxa.map((summary) => (
+              <SelectItem key={summary.taxon} value={String(summary.taxon)}>
+                Taxon {summary.taxon} ({summary.minted})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex flex-1 min-w-[16rem] gap-2">
+          <Input
+            placeholder="Look up an NFT by ID"
+            value={lookupInput}
+            onChange={(e) => setLookupInput(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleLookup()}
+            className="font-mono text-xs h-9"
+          />
+          <Button onClick={handleLookup} variant="outline" size="sm" className="h-9">
+            <Search className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {lookupId && <NFTLookup nftId={lookupId} />}
+
+      <div className="grid grid-cols-3 md:grid-cols-6 gap-3">
+        {figures.map((figure) => (
+          <div key={figure.label} className="p-3 rounded-lg border border-border/50">
+            <p className="text-xs text-muted-foreground">{figure.label}</p>
+            <p className="text-lg font-bold">{figure.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <p className="text-xs text-muted-foreground uppercase tracking-wide mb-2">
+          Largest Owners ({stats.singleTokenOwners.toLocaleString()} own a single token)
+        </p>
+        <div className="space-y-1">
+          {owners.slice(0, TOP_OWNERS).map((owner) => (
+            <div
+              key={owner.address}
+              className="flex items-center justify-between gap-3 text-sm p-2 rounded-lg bg-muted/30 cursor-pointer hover:bg-accent/30"
+              onClick={() => onWalletSelect(toClassicAddress(owner.address))}
+            >
+              <span className="font-mono text-xs truncate">{getWalletLabel(owner.address)}</span>
+              <span className="shrink-0">
+                {owner.count.toLocaleString()}
+                <span className="text-xs text-muted-foreground ml-2">{formatShare(owner.share)}</span>
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-20">Serial</TableHead>
+              <TableHead className="w-20">Taxon</TableHead>
+              <TableHead>NFT ID</TableHead>
+              <TableHead>Owner</TableHead>
+              <TableHead className="text-right">Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {pageNfts.map((nft) => (
+              <TableRow
+                key={nft.nft_id}
+                className={`cursor-pointer ${nft.is_burned ? 'opacity-60' : ''}`}
+                onClick={() => setLookupId(nft.nft_id)}
+              >
+                <TableCell>#{nft.nft_serial}</TableCell>
+                <TableCell className="text-muted-foreground">{nft.nft_taxon}</TableCell>
+                <TableCell className="font-mono text-xs" title={nft.nft_id}>{shortId(nft.nft_id)}</TableCell>
+                <TableCell className="font-mono text-xs truncate max-w-[16rem]">{getWalletLabel(nft.owner)}</TableCell>
+                <TableCell className="text-right">
+                  {nft.is_burned
+                    ? <Badge variant="destructive" className="text-xs">Burned</Badge>
+                    : <Badge variant="secondary" className="text-xs">Live</Badge>}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-muted-foreground">
+          {sorted.length.toLocaleString()} NFTs · page {page + 1} of {pageCount}
+        </span>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" disabled={page === 0} onClick={() => setPage(page - 1)}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" disabled={page >= pageCount - 1} onClick={() => setPage(page + 1)}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default NFTCollectionExplorer;
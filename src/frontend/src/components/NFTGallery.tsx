@@ -0,0 +1,220 @@
+import { useMemo, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertCircle, Layers, Loader2, TrendingUp } from 'lucide-react';
+import NFTCard from '@/components/NFTCard';
+import type { NFToken } from '@/lib/xrpl';
+import {
+  describeNFT,
+  filterNFTs,
+  groupCollections,
+  sortNFTs,
+  NFT_SORT_LABELS,
+  type NFTCollection,
+  type NFTDetails,
+  type NFTSortKey,
+  type TransferabilityFilter
+} from '@/lib/nfts';
+import { summarizeNFTMarket } from '@/lib/nftOffers';
+import { formatLedgerAmount, type LedgerAmount } from '@/lib/amount';
+import { getWalletLabel } from '@/lib/wallets';
+import { useNFTOffers, type NFTOffersState } from '@/hooks/useNFTOffers';
+import { useCollectionMarket } from '@/hooks/useCollectionMarket';
+
+interface NFTGalleryProps {
+  nfts: NFToken[];
+}
+
+const TRANSFERABILITY_LABELS: Record<TransferabilityFilter, string> = {
+  all: 'Any transferability',
+  transferable: 'Transferable',
+  'non-transferable': 'Non-transferable'
+};
+
+function collectionLabel(collection: NFTCollection): string {
+  return `${getWalletLabel(collection.issuer)} · Taxon ${collection.taxon}`;
+}
+
+function formatAmounts(amounts: LedgerAmount[]): string {
+  return amounts.length === 0 ? '—' : amounts.map(amount => formatLedgerAmount(amount)).join(' · ');
+}
+
+function NFTGrid({ nfts, offers }: { nfts: NFTDetails[]; offers: NFTOffersState }) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+      {nfts.map((details) => (
+        <NFTCard
+          key={details.nft.NFTokenID}
+          details={details}
+          offers={offers.offers.get(details.nft.NFTokenID)}
+          offersLoading={offers.loading}
+        />
+      ))}
+    </div>
+  );
+}
+
+// Floor and best bid across the whole collection, loaded on request since it
+// means fetching the offers on every token the issuer has minted into it
+function CollectionMarket({ collection }: { collection: NFTCollection }) {
+  const { state, load, cancel } = useCollectionMarket(collection.issuer, collection.taxon);
+
+  switch (state.status) {
+    case 'idle':
+      return (
+        <Button variant="ghost" size="sm" className="h-7 px-2 text-xs mb-2" onClick={() => load()}>
+          <TrendingUp className="h-3 w-3 mr-1" />
+          Load collection floor and bids
+        </Button>
+      );
+    case 'loading':
+      return (
+        <div className="flex items-center gap-2 text-xs text-muted-foreground mb-2">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          {state.tokens === null
+            ? 'Listing the collection…'
+            : `Checking offers on ${state.scanned.toLocaleString()} of ${state.tokens.toLocaleString()} NFTs…`}
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={cancel}>
+            Stop
+          </Button>
+        </div>
+      );
+    case 'unsupported':
+      return (
+        <p className="text-xs text-muted-foreground mb-2">
+          The collection floor needs a Clio server to list every NFT in the collection. Add a Clio endpoint in the network settings.
+        </p>
+      );
+    case 'error':
+      return (
+        <div className="flex items-center gap-2 text-xs text-destructive mb-2">
+          {state.message}
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => load()}>
+            Retry
+          </Button>
+        </div>
+      );
+  }
+
+  const { market, tokens, failed } = state;
+  return (
+    <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs mb-2">
+      <span>
+        <span className="text-muted-foreground">Floor: </span>
+        <span className="font-semibold">{formatAmounts(market.floor)}</span>
+      </span>
+      <span>
+        <span className="text-muted-foreground">Highest bid: </span>
+        <span className="font-semibold">{formatAmounts(market.highestBid)}</span>
+      </span>
+      <span className="text-muted-foreground">
+        {market.sellCount} sell · {market.buyCount} buy offers across {tokens.toLocaleString()} NFTs
+        {failed > 0 && ` (${failed} couldn't be checked)`}
+      </span>
+    </div>
+  );
+}
+
+function NFTGallery({ nfts }: NFTGalleryProps) {
+  const [collectionFilter, setCollectionFilter] = useState('all');
+  const [transferability, setTransferability] = useState<TransferabilityFilter>('all');
+  const [sortKey, setSortKey] = useState<NFTSortKey>('collection');
+
+  const details = useMemo(() => nfts.map(describeNFT), [nfts]);
+  const collections = useMemo(() => groupCollections(details), [details]);
+  const offers = useNFTOffers(nfts.map(nft => nft.NFTokenID));
+
+  const visible = sortNFTs(filterNFTs(details, { collection: collectionFilter, transferability }), sortKey);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={collectionFilter} onValueChange={setCollectionFilter}>
+          <SelectTrigger className="h-9 w-[16rem]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All collections ({collections.length})</SelectItem>
+            {collections.map((collection) => (
+              <SelectItem key={collection.key} value={collection.key}>
+                {collectionLabel(collection)} ({collection.nfts.length})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={transferability} onValueChange={(value) => setTransferability(value as TransferabilityFilter)}>
+          <SelectTrigger className="h-9 w-[12rem]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(TRANSFERABILITY_LABELS) as TransferabilityFilter[]).map((option) => (
+              <SelectItem key={option} value={option}>
+                {TRANSFERABILITY_LABELS[option]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={sortKey} onValueChange={(value) => setSortKey(value as NFTSortKey)}>
+          <SelectTrigger className="h-9 w-[11rem]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(NFT_SORT_LABELS) as NFTSortKey[]).map((option) => (
+              <SelectItem key={option} value={option}>
+                Sort: {NFT_SORT_LABELS[option]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <span className="text-xs text-muted-foreground">
+          Showing {visible.length} of {nfts.length}
+        </span>
+      </div>
+
+      {offers.skipped > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Offers were loaded for {nfts.length - offers.skipped} of {nfts.length} NFTs to limit requests.
+        </p>
+      )}
+
+      {visible.length === 0 ? (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>No NFTs match these filters.</AlertDescription>
+        </Alert>
+      ) : sortKey === 'collection' ? (
+        // Grouped view: one section per collection, largest first
+        collections
+          .map((collection) => ({
+            collection,
+            nfts: visible.filter(item => item.collectionKey === collection.key)
+          }))
+          .filter(group => group.nfts.length > 0)
+          .map(({ collection, nfts: groupNfts }) => (
+            <div key={collection.key}>
+              <div className="flex items-center justify-between gap-3 mb-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  <Layers className="h-4 w-4 text-chart-2 shrink-0" />
+                  <p className="font-semibold text-sm truncate">{collectionLabel(collection)}</p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Badge variant="secondary">{collection.nfts.length} NFTs</Badge>
+                  <span className="text-xs text-muted-foreground">
+                    {collection.transferableCount} transferable
+                  </span>
+                </div>
+              </div>
+              <CollectionMarket collection={collection} />
+              <NFTGrid nfts={groupNfts} offers={offers} />
+            </div>
+          ))
+      ) : (
+        <NFTGrid nfts={visible} offers={offers} />
+      )}
+    </div>
+  );
+}
+
+export default NFTGallery;
@@ -0,0 +1,72 @@
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { NFTOffer, NFTOfferSide } from '@/lib/xrpl';
+import { isOfferExpired, offerExpiration, type NFTOfferBook } from '@/lib/nftOffers';
+import { formatLedgerAmount } from '@/lib/amount';
+import { getWalletLabel } from '@/lib/wallets';
+
+interface NFTOfferListProps {
+  book: NFTOfferBook;
+}
+
+function OfferRow({ offer, side }: { offer: NFTOffer; side: NFTOfferSide }) {
+  const expiration = offerExpiration(offer);
+  const expired = isOfferExpired(offer);
+
+  return (
+    <TableRow className={expired ? 'opacity-50' : ''}>
+      <TableCell>
+        <Badge variant={side === 'sell' ? 'destructive' : 'default'} className="text-xs">
+          {side === 'sell' ? 'Sell' : 'Buy'}
+        </Badge>
+      </TableCell>
+      <TableCell className="font-semibold whitespace-nowrap">{formatLedgerAmount(offer.amount)}</TableCell>
+      <TableCell className="font-mono text-xs truncate max-w-[10rem]">{getWalletLabel(offer.owner)}</TableCell>
+      <TableCell className="font-mono text-xs truncate max-w-[10rem]">
+        {offer.destination ? getWalletLabel(offer.destination) : <span className="text-muted-foreground">Anyone</span>}
+      </TableCell>
+      <TableCell className="text-xs whitespace-nowrap">
+        {expiration ? (
+          <>
+            {expiration.toLocaleString()}
+            {expired && <span className="text-destructive ml-1">(expired)</span>}
+          </>
+        ) : (
+          <span className="text-muted-foreground">Never</span>
+        )}
+      </TableCell>
+    </TableRow>
+  );
+}
+
+function NFTOfferList({ book }: NFTOfferListProps) {
+  if (book.sell.length === 0 && book.buy.length === 0) {
+    return <p className="text-xs text-muted-foreground">No open offers for this NFT.</p>;
+  }
+
+  return (
+    <div className="border rounded-lg overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Side</TableHead>
+            <TableHead>Amount</TableHead>
+            <TableHead>Owner</TableHead>
+            <TableHead>Destination</TableHead>
+            <TableHead>Expires</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {book.sell.map((offer) => (
+            <OfferRow key={offer.nft_offer_index} offer={offer} side="sell" />
+          ))}
+          {book.buy.map((offer) => (
+            <OfferRow key={offer.nft_offer_index} offer={offer} side="buy" />
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+export default NFTOfferList;
@@ -0,0 +1,71 @@
+import { useState } from 'react';
+import { Globe, Pencil } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import CustomNetworkDialog from '@/components/CustomNetworkDialog';
+import { useNetwork } from '@/hooks/useNetwork';
+import { getNetworkProfiles, setActiveNetwork, type NetworkId } from '@/lib/networks';
+import { toast } from 'sonner';
+
+function NetworkSelector() {
+  const network = useNetwork();
+  const [customDialogOpen, setCustomDialogOpen] = useState(false);
+
+  const handleChange = (id: string) => {
+    const profile = getNetworkProfiles().find(p => p.id === id);
+    if (!profile) return;
+
+    // The custom profile needs endpoints before it can be used
+    if (profile.id === 'custom' && profile.jsonRpcServers.length === 0) {
+      setCustomDialogOpen(true);
+      return;
+    }
+
+    try {
+      setActiveNetwork(id as NetworkId);
+      toast.success(`Switched to ${profile.name}`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to switch network');
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <Select value={network.id} onValueChange={handleChange}>
+        <SelectTrigger
+          className={
+            network.isProduction
+              ? 'h-9 gap-1.5 font-semibold'
+              : 'h-9 gap-1.5 font-semibold border-chart-4 bg-chart-4/15 text-chart-4'
+          }
+          title="XRPL Network"
+        >
+          <Globe className="h-4 w-4" />
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent align="end">
+          {getNetworkProfiles().map(profile => (
+            <SelectItem key={profile.id} value={profile.id}>
+              {profile.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {network.id === 'custom' && (
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setCustomDialogOpen(true)}
+          title="Edit custom endpoints"
+        >
+          <Pencil className="h-4 w-4" />
+        </Button>
+      )}
+
+      <CustomNetworkDialog open={customDialogOpen} onOpenChange={setCustomDialogOpen} />
+    </div>
+  );
+}
+
+export default NetworkSelector;
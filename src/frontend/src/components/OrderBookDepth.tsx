@@ -0,0 +1,198 @@
+import { useEffect, useRef, useState } from 'react';
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { AlertCircle, BarChart3, RefreshCw } from 'lucide-react';
+import { Token } from '@/pages/Dashboard';
+import { fetchOrderBook, type BookAsset } from '@/lib/xrpl';
+import { buildOrderBook, depthChartData, formatPrice, type OrderBookSummary } from '@/lib/orderBook';
+import { XRP_ASSET, assetKey, assetLabel, counterAssets } from '@/lib/assetPairs';
+import { useAccountUpdates } from '@/hooks/useLedgerStream';
+import { isAbortError } from '@/lib/scheduler';
+import { describeXRPLError } from '@/lib/xrplErrors';
+
+interface OrderBookDepthProps {
+  token: Token;
+}
+
+interface LoadOptions {
+  // Refresh in place without replacing the chart with a skeleton
+  silent?: boolean;
+}
+
+const chartConfig = {
+  bids: { label: 'Bids', color: 'oklch(var(--chart-3))' },
+  asks: { label: 'Asks', color: 'oklch(var(--destructive))' }
+} satisfies ChartConfig;
+
+function OrderBookDepth({ token }: OrderBookDepthProps) {
+  const [counters] = useState(() => counterAssets(token.currency, token.issuer));
+  const [counterKey, setCounterKey] = useState(assetKey(XRP_ASSET));
+  const [book, setBook] = useState<OrderBookSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const loadControllerRef = useRef<AbortController | null>(null);
+
+  const base: BookAsset = { currency: token.currency, issuer: token.issuer };
+  const counter = counters.find(asset => assetKey(asset) === counterKey) ?? XRP_ASSET;
+  const baseLabel = assetLabel(base);
+  const counterLabel = assetLabel(counter);
+
+  const loadBook = async ({ silent = false }: LoadOptions = {}) => {
+    loadControllerRef.current?.abort();
+    const controller = new AbortController();
+    loadControllerRef.current = controller;
+
+    console.log(`[OrderBook] Loading ${baseLabel}/${counterLabel} order book`);
+
+    try {
+      if (!silent) {
+        setLoading(true);
+        setError(null);
+      }
+
+      const offers = await fetchOrderBook(base, counter, {
+        signal: controller.signal,
+        priority: silent ? 'low' : 'normal'
+      });
+      setBook(buildOrderBook(offers));
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error('[OrderBook] Error loading order book:', err);
+      if (!silent) {
+        setError(describeXRPLError(err, 'Failed to load order book'));
+      }
+    } finally {
+      if (loadControllerRef.current === controller) {
+        setLoading(false);
+      }
+    }
+  };
+
+  useEffect(() => {
+    loadBook();
+  }, [token, counterKey]);
+
+  useEffect(() => () => loadControllerRef.current?.abort(), []);
+
+  // Trades and new offers for the token move balances on the issuer's lines
+  useAccountUpdates([token.issuer], () => {
+    loadBook({ silent: true });
+  });
+
+  const header = (
+    <div className="flex items-center justify-between gap-3 mb-4">
+      <div className="flex items-center gap-2">
+        <BarChart3 className="h-5 w-5 text-chart-1" />
+        <h3 className="font-semibold text-lg">DEX Order Book</h3>
+      </div>
+      <div className="flex items-center gap-2">
+        <Select value={counterKey} onValueChange={setCounterKey}>
+          <SelectTrigger className="h-9 w-[10rem]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {counters.map((asset) => (
+              <SelectItem key={assetKey(asset)} value={assetKey(asset)}>
+                {baseLabel}/{assetLabel(asset)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button onClick={() => loadBook()} variant="ghost" size="sm" disabled={loading}>
+          <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+        </Button>
+      </div>
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <div>
+        {header}
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (error || !book) {
+    return (
+      <div>
+        {header}
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Error Loading Order Book</AlertTitle>
+          <AlertDescription className="space-y-2">
+            <p className="text-sm">{error}</p>
+            <Button onClick={() => loadBook()} variant="outline" size="sm">
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Retry
+            </Button>
+          </AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  const figures = [
+    { label: 'Best Bid', value: formatPrice(book.bestBid) },
+    { label: 'Best Ask', value: formatPrice(book.bestAsk) },
+    { label: 'Mid Price', value: formatPrice(book.mid) },
+    {
+      label: 'Spread',
+      value: book.spread === null ? '—' : `${formatPrice(book.spread)} (${book.spreadPercent?.toFixed(2)}%)`
+    }
+  ];
+
+  return (
+    <div>
+      {header}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+        {figures.map((figure) => (
+          <div key={figure.label} className="p-3 rounded-lg border border-border/50">
+            <p className="text-xs text-muted-foreground">{figure.label}</p>
+            <p className="text-lg font-bold">{figure.value}</p>
+          </div>
+        ))}
+      </div>
+
+      {book.bids.length === 0 && book.asks.length === 0 ? (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            No funded offers for {baseLabel}/{counterLabel} on the DEX.
+          </AlertDescription>
+        </Alert>
+      ) : (
+        <>
+          <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+            <AreaChart data={depthChartData(book)}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="price"
+                type="number"
+                domain={['dataMin', 'dataMax']}
+                tickFormatter={(price: number) => formatPrice(price)}
+              />
+              <YAxis width={64} tickFormatter={(amount: number) => amount.toLocaleString(undefined, { notation: 'compact' })} />
+              <ChartTooltip
+                content={<ChartTooltipContent labelFormatter={(_, payload) => `${formatPrice(payload?.[0]?.payload?.price ?? null)} ${counterLabel}`} />}
+              />
+              <Area dataKey="bids" type="stepBefore" stroke="var(--color-bids)" fill="var(--color-bids)" fillOpacity={0.3} connectNulls={false} />
+              <Area dataKey="asks" type="stepAfter" stroke="var(--color-asks)" fill="var(--color-asks)" fillOpacity={0.3} connectNulls={false} />
+            </AreaChart>
+          </ChartContainer>
+          <p className="text-xs text-muted-foreground mt-2">
+            Prices in {counterLabel} per {baseLabel}; depth is cumulative {baseLabel} at ledger #{book.ledgerIndex}.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default OrderBookDepth;
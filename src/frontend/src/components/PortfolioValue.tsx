@@ -0,0 +1,57 @@
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { PieChart } from 'lucide-react';
+import { Currency } from '@/lib/currency';
+import { formatIOU } from '@/lib/amount';
+import { formatXRPValue, type PortfolioValuation } from '@/lib/pricing';
+
+interface PortfolioValueProps {
+  valuation: PortfolioValuation;
+  loading: boolean;
+}
+
+function PortfolioValue({ valuation, loading }: PortfolioValueProps) {
+  return (
+    <div className="p-4 rounded-lg border border-border/50 space-y-3">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <p className="flex items-center gap-1 text-sm text-muted-foreground mb-1">
+            <PieChart className="h-4 w-4" />
+            Portfolio Value
+          </p>
+          <p className="text-2xl font-bold">≈ {formatXRPValue(valuation.totalXrp)} XRP</p>
+        </div>
+        {loading && <Badge variant="secondary">Pricing tokens…</Badge>}
+      </div>
+
+      <div className="space-y-2">
+        {valuation.allocation.map((slice) => (
+          <div key={slice.key} className="space-y-1">
+            <div className="flex justify-between text-xs">
+              <span className="font-semibold">{slice.label}</span>
+              <span className="text-muted-foreground">
+                {formatXRPValue(slice.valueXrp)} XRP · {(slice.share * 100).toFixed(1)}%
+              </span>
+            </div>
+            <Progress value={slice.share * 100} className="h-1.5" />
+          </div>
+        ))}
+      </div>
+
+      {!loading && valuation.unpriced.length > 0 && (
+        <div className="text-xs text-muted-foreground">
+          <p className="mb-1">Not included (no XRP price available):</p>
+          <div className="flex flex-wrap gap-1">
+            {valuation.unpriced.map((holding) => (
+              <Badge key={`${holding.token.currency}-${holding.token.issuer}`} variant="outline" className="text-xs">
+                {formatIOU(holding.balance)} {Currency.fromLedger(holding.token.currency).display()}
+              </Badge>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default PortfolioValue;
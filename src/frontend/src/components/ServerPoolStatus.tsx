@@ -0,0 +1,95 @@
+import { Server, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useServerPool } from '@/hooks/useServerPool';
+import { probeAllServers, type CircuitState, type ServerHealth } from '@/lib/serverPool';
+
+const CIRCUIT_BADGES: Record<CircuitState, { label: string; className: string }> = {
+  closed: { label: 'Healthy', className: 'border-chart-3/50 text-chart-3' },
+  'half-open': { label: 'Recovering', className: 'border-chart-4/50 text-chart-4' },
+  open: { label: 'Down', className: 'border-destructive/50 text-destructive' }
+};
+
+function serverLabel(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+function ServerRow({ server }: { server: ServerHealth }) {
+  const badge = CIRCUIT_BADGES[server.circuit];
+
+  return (
+    <div className="p-3 rounded-lg border border-border/50 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <p className="font-mono text-xs truncate">{serverLabel(server.url)}</p>
+        <Badge variant="outline" className={badge.className}>
+          {badge.label}
+        </Badge>
+      </div>
+      <div className="grid grid-cols-3 gap-2 text-xs">
+        <div>
+          <p className="text-muted-foreground">Latency</p>
+          <p className="font-semibold">
+            {server.latencyMs !== null ? `${Math.round(server.latencyMs)}ms` : '—'}
+          </p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Errors</p>
+          <p className="font-semibold">{(server.errorRate * 100).toFixed(0)}%</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Ledger lag</p>
+          <p className="font-semibold">{server.ledgerLag !== null ? server.ledgerLag : '—'}</p>
+        </div>
+      </div>
+      {server.lastError && (
+        <p className="text-xs text-destructive truncate" title={server.lastError}>
+          {server.lastError}
+        </p>
+      )}
+    </div>
+  );
+}
+
+function ServerPoolStatus() {
+  const servers = useServerPool();
+  const healthy = servers.filter(server => server.circuit === 'closed').length;
+  const indicatorClass =
+    healthy === servers.length ? 'bg-chart-3' : healthy > 0 ? 'bg-chart-4' : 'bg-destructive';
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="icon" className="rounded-full relative" title="XRPL Servers">
+          <Server className="h-5 w-5" />
+          <span className={`absolute top-1 right-1 h-2 w-2 rounded-full ${indicatorClass}`} />
+          <span className="sr-only">XRPL Servers</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="font-semibold text-sm">XRPL Servers</p>
+            <p className="text-xs text-muted-foreground">
+              {healthy} of {servers.length} healthy
+            </p>
+          </div>
+          <Button variant="ghost" size="icon" onClick={() => probeAllServers()} title="Check now">
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+        </div>
+        <div className="space-y-2">
+          {servers.map(server => (
+            <ServerRow key={server.url} server={server} />
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+export default ServerPoolStatus;
@@ -22,12 +22,17 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Pencil, Trash2, Plus, AlertCircle, Save, X } from 'lucide-react';
 import {
   loadTokenConfig,
+  takeTokenConfigWarnings,
   addToken,
   removeToken,
   updateToken,
   TokenConfig,
+  TokenConfigInput,
 } from '@/lib/tokenConfig';
 import { toast } from 'sonner';
+import WalletConfigSection from '@/components/WalletConfigSection';
+import IpfsGatewaySection from '@/components/IpfsGatewaySection';
+import { useNetwork } from '@/hooks/useNetwork';
 
 interface TokenConfigDialogProps {
   open: boolean;
@@ -39,21 +44,23 @@ function TokenConfigDialog({ open, onOpenChange, onConfigChange }: TokenConfigDi
   const [tokens, setTokens] = useState<TokenConfig[]>([]);
   const [editingIndex, setEditingIndex] = useState<number | null>(null);
   const [isAdding, setIsAdding] = useState(false);
-  const [formData, setFormData] = useState<TokenConfig>({
+  const [formData, setFormData] = useState<TokenConfigInput>({
     currency: '',
     issuer: '',
     customName: '',
   });
   const [error, setError] = useState<string>('');
+  const network = useNetwork();
 
   useEffect(() => {
     if (open) {
       loadTokens();
     }
-  }, [open]);
+  }, [open, network.id]);
 
   const loadTokens = () => {
     const config = loadTokenConfig();
+    takeTokenConfigWarnings().forEach(warning => toast.warning(warning));
     setTokens(config);
   };
 
@@ -131,7 +138,7 @@ function TokenConfigDialog({ open, onOpenChange, onConfigChange }: TokenConfigDi
         <DialogHeader>
           <DialogTitle>Token Configuration</DialogTitle>
           <DialogDescription>
-            Manage which tokens to monitor on your dashboard. Only whitelisted tokens will be displayed.
+            Manage which tokens and wallets to monitor on {network.name}. Only whitelisted tokens will be displayed.
           </DialogDescription>
         </DialogHeader>
 
@@ -261,6 +268,19 @@ function TokenConfigDialog({ open, onOpenChange, onConfigChange }: TokenConfigDi
               </div>
             )}
           </div>
+
+          <div className="pt-4 border-t">
+            <WalletConfigSection
+              key={network.id}
+              open={open}
+              networkName={network.name}
+              onConfigChange={onConfigChange}
+            />
+          </div>
+
+          <div className="pt-4 border-t">
+            <IpfsGatewaySection open={open} />
+          </div>
         </div>
 
         <DialogFooter>
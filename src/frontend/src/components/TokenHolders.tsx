@@ -0,0 +1,216 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertCircle, ChevronLeft, ChevronRight, RefreshCw, Users } from 'lucide-react';
+import { Token } from '@/pages/Dashboard';
+import { iterateAccountLines, validateXRPLAddress } from '@/lib/xrpl';
+import { analyzeHolders, holderLinesFromIssuer, type HolderLine, type HolderStats, type TokenHolder } from '@/lib/holders';
+import { formatIOU } from '@/lib/amount';
+import { toClassicAddress, type ClassicAddress } from '@/lib/addressCodec';
+import { getWalletLabel } from '@/lib/wallets';
+import { isAbortError } from '@/lib/scheduler';
+import { describeXRPLError } from '@/lib/xrplErrors';
+
+interface TokenHoldersProps {
+  token: Token;
+  onWalletSelect: (wallet: ClassicAddress) => void;
+}
+
+const PAGE_SIZE = 50;
+
+function formatShare(share: number): string {
+  return `${(share * 100).toFixed(2)}%`;
+}
+
+function TokenHolders({ token, onWalletSelect }: TokenHoldersProps) {
+  const [holders, setHolders] = useState<TokenHolder[]>([]);
+  const [stats, setStats] = useState<HolderStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [linesScanned, setLinesScanned] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [page, setPage] = useState(0);
+  const loadControllerRef = useRef<AbortController | null>(null);
+
+  // Busy issuers have tens of thousands of lines, so this reloads on request
+  // rather than on every ledger update
+  const loadHolders = async () => {
+    loadControllerRef.current?.abort();
+    const controller = new AbortController();
+    loadControllerRef.current = controller;
+
+    if (!validateXRPLAddress(token.issuer)) {
+      setError(`Invalid issuer address: "${token.issuer}"`);
+      setLoading(false);
+      return;
+    }
+
+    console.log(`[TokenHolders] Loading holders of ${token.currency} (${token.issuer})`);
+
+    try {
+      setLoading(true);
+      setError(null);
+      setLinesScanned(0);
+
+      // Keep only this token's lines from each page; the issuer may issue others
+      const lines: HolderLine[] = [];
+      let scanned = 0;
+      for await (const pageLines of iterateAccountLines(token.issuer, { signal: controller.signal, priority: 'normal' })) {
+        scanned += pageLines.length;
+        lines.push(...holderLinesFromIssuer(pageLines, token.currency));
+        setLinesScanned(scanned);
+      }
+
+      const analysis = analyzeHolders(lines);
+      setHolders(analysis.holders);
+      setStats(analysis.stats);
+      setPage(0);
+      console.log(`[TokenHolders] ${analysis.stats.holderCount} holders across ${lines.length} trust lines`);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error('[TokenHolders] Error loading holders:', err);
+      setError(describeXRPLError(err, 'Failed to load token holders'));
+    } finally {
+      if (loadControllerRef.current === controller) {
+        setLoading(false);
+      }
+    }
+  };
+
+  useEffect(() => {
+    loadHolders();
+  }, [token]);
+
+  useEffect(() => () => loadControllerRef.current?.abort(), []);
+
+  const header = (
+    <div className="flex items-center justify-between mb-4">
+      <div className="flex items-center gap-2">
+        <Users className="h-5 w-5 text-chart-2" />
+        <h3 className="font-semibold text-lg">All Holders</h3>
+      </div>
+      <Button onClick={() => loadHolders()} variant="ghost" size="sm" disabled={loading}>
+        <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+      </Button>
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <div>
+        {header}
+        <Skeleton className="h-24 w-full mb-2" />
+        <p className="text-xs text-muted-foreground">
+          Scanned {linesScanned.toLocaleString()} trust lines…
+        </p>
+      </div>
+    );
+  }
+
+  if (error || !stats) {
+    return (
+      <div>
+        {header}
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Error Loading Holders</AlertTitle>
+          <AlertDescription className="space-y-2">
+            <p className="text-sm">{error}</p>
+            <Button onClick={() => loadHolders()} variant="outline" size="sm">
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Retry
+            </Button>
+          </AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  const pageCount = Math.max(1, Math.ceil(holders.length / PAGE_SIZE));
+  const pageHolders = holders.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+
+  const figures = [
+    { label: 'Holders', value: stats.holderCount.toLocaleString() },
+    { label: 'Zero-balance lines', value: stats.zeroBalanceLines.toLocaleString() },
+    { label: 'Top 10', value: formatShare(stats.top10Share) },
+    { label: 'Top 50', value: formatShare(stats.top50Share) },
+    { label: 'Gini', value: stats.gini.toFixed(3) },
+    { label: 'HHI', value: Math.round(stats.hhi).toLocaleString() }
+  ];
+
+  return (
+    <div>
+      {header}
+
+      <div className="grid grid-cols-3 md:grid-cols-6 gap-3 mb-4">
+        {figures.map((figure) => (
+          <div key={figure.label} className="p-3 rounded-lg border border-border/50">
+            <p className="text-xs text-muted-foreground">{figure.label}</p>
+            <p className="text-lg font-bold">{figure.value}</p>
+          </div>
+        ))}
+      </div>
+
+      {holders.length === 0 ? (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            Nobody holds this token yet ({stats.totalLines.toLocaleString()} trust lines, all empty).
+          </AlertDescription>
+        </Alert>
+      ) : (
+        <>
+          <div className="border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-12">#</TableHead>
+                  <TableHead>Holder</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                  <TableHead className="text-right">Share</TableHead>
+                  <TableHead className="text-right">Limit</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {pageHolders.map((holder, index) => (
+                  <TableRow
+                    key={holder.address}
+                    className="cursor-pointer"
+                    onClick={() => onWalletSelect(toClassicAddress(holder.address))}
+                  >
+                    <TableCell className="text-muted-foreground">{page * PAGE_SIZE + index + 1}</TableCell>
+                    <TableCell className="font-mono text-xs truncate max-w-[16rem]">
+                      {getWalletLabel(holder.address)}
+                    </TableCell>
+                    <TableCell className="text-right font-semibold">{formatIOU(holder.balance)}</TableCell>
+                    <TableCell className="text-right">{formatShare(holder.share)}</TableCell>
+                    <TableCell className="text-right text-muted-foreground">
+                      {formatIOU(holder.limit, { minimumFractionDigits: 0, maximumFractionDigits: 0 })}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="flex items-center justify-between mt-3 text-sm">
+            <span className="text-muted-foreground">
+              {holders.length.toLocaleString()} holders · page {page + 1} of {pageCount}
+            </span>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" disabled={page === 0} onClick={() => setPage(page - 1)}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="sm" disabled={page >= pageCount - 1} onClick={() => setPage(page + 1)}>
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default TokenHolders;
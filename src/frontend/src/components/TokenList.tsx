@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -6,18 +6,28 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { AlertCircle, TrendingUp, Coins, AlertTriangle, RefreshCw } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Token } from '@/pages/Dashboard';
-import { fetchAccountLines, validateXRPLAddress } from '@/lib/xrpl';
-import { loadTokenConfig, isTokenWhitelisted, hexToString } from '@/lib/tokenConfig';
+import { fetchAllAccountLines, validateXRPLAddress } from '@/lib/xrpl';
+import { loadTokenConfig, isTokenWhitelisted, takeTokenConfigWarnings } from '@/lib/tokenConfig';
+import { Currency } from '@/lib/currency';
+import { useAccountUpdates } from '@/hooks/useLedgerStream';
+import { useTokenQuotes } from '@/hooks/useTokenQuotes';
+import TokenValue from '@/components/TokenValue';
+import { loadMonitoredWallets, type MonitoredWallet } from '@/lib/wallets';
+import { formatIOU } from '@/lib/amount';
+import { tokenKey } from '@/lib/pricing';
+import { isAbortError } from '@/lib/scheduler';
+import { describeXRPLError } from '@/lib/xrplErrors';
+import { toast } from 'sonner';
 
 interface TokenListProps {
   onTokenSelect: (token: Token) => void;
   refreshTrigger?: number;
 }
 
-const WALLETS = [
-  { address: 'rdRvw4pKmEtSnz3cjXBL6HLJJmejtkoQ4', name: 'GreedyJEW Issuer' },
-  { address: 'rw3DPxgusRrvdsbXSjHdXD14ogkNidTTRx', name: 'Project Dev Wallet' }
-];
+interface LoadOptions {
+  // Refresh in place without replacing the list with skeletons
+  silent?: boolean;
+}
 
 interface WalletError {
   wallet: string;
@@ -29,17 +39,32 @@ function TokenList({ onTokenSelect, refreshTrigger }: TokenListProps) {
   const [tokens, setTokens] = useState<Token[]>([]);
   const [loading, setLoading] = useState(true);
   const [walletErrors, setWalletErrors] = useState<WalletError[]>([]);
+  const [linesLoaded, setLinesLoaded] = useState(0);
+  const [wallets, setWallets] = useState<MonitoredWallet[]>(loadMonitoredWallets);
+  const loadControllerRef = useRef<AbortController | null>(null);
+
+  const loadTokens = async ({ silent = false }: LoadOptions = {}) => {
+    // A newer load supersedes any that is still running
+    loadControllerRef.current?.abort();
+    const controller = new AbortController();
+    loadControllerRef.current = controller;
 
-  const loadTokens = async () => {
     console.log('[TokenList] ========================================');
-    console.log('[TokenList] Starting to load tokens from wallets:', WALLETS);
+    // Re-read on every load so wallet edits in the config dialog apply
+    const monitoredWallets = loadMonitoredWallets();
+    setWallets(monitoredWallets);
+    console.log('[TokenList] Starting to load tokens from wallets:', monitoredWallets);
     
     try {
-      setLoading(true);
-      setWalletErrors([]);
+      if (!silent) {
+        setLoading(true);
+        setWalletErrors([]);
+        setLinesLoaded(0);
+      }
       
       // Load token whitelist
       const tokenConfig = loadTokenConfig();
+      takeTokenConfigWarnings().forEach(warning => toast.warning(warning));
       console.log('[TokenList] ========================================');
       console.log('[TokenList] Loaded token whitelist configuration:');
       console.log('[TokenList] Total tokens in whitelist:', tokenConfig.length);
@@ -52,13 +77,13 @@ function TokenList({ onTokenSelect, refreshTrigger }: TokenListProps) {
       });
       console.log('[TokenList] ========================================');
       
-      const allTokens: Token[] = [];
       const errors: WalletError[] = [];
+      const linesLoadedByWallet = new Map<string, number>();
       
       // Validate addresses first
-      for (const wallet of WALLETS) {
+      for (const wallet of monitoredWallets) {
         if (!validateXRPLAddress(wallet.address)) {
-          const errorMsg = `Invalid XRPL address format. Address must start with 'r' and be 25-35 characters long.`;
+          const errorMsg = `Invalid XRPL address: the address is malformed or its checksum does not match.`;
           console.error(`[TokenList] Invalid address for ${wallet.name}:`, wallet.address);
           errors.push({
             wallet: wallet.name,
@@ -68,36 +93,40 @@ function TokenList({ onTokenSelect, refreshTrigger }: TokenListProps) {
         }
       }
       
-      // Fetch data from valid addresses
-      for (const wallet of WALLETS) {
-        if (!validateXRPLAddress(wallet.address)) {
-          continue; // Skip invalid addresses
-        }
-        
+      // Fetch data from valid addresses in parallel; the scheduler caps how
+      // many requests actually run at once
+      const validWallets = monitoredWallets.filter(wallet => validateXRPLAddress(wallet.address));
+      const tokensPerWallet = await Promise.all(validWallets.map(async (wallet): Promise<Token[]> => {
         console.log(`[TokenList] ========================================`);
         console.log(`[TokenList] Fetching trust lines for ${wallet.name} (${wallet.address})`);
         
         try {
-          const lines = await fetchAccountLines(wallet.address);
+          const lines = await fetchAllAccountLines(wallet.address, {
+            signal: controller.signal,
+            // Background refreshes yield to loads the user is waiting on
+            priority: silent ? 'low' : 'high',
+            onProgress: ({ items }) => {
+              linesLoadedByWallet.set(wallet.address, items);
+              setLinesLoaded([...linesLoadedByWallet.values()].reduce((sum, count) => sum + count, 0));
+            }
+          });
           console.log(`[TokenList] Retrieved ${lines.length} trust lines for ${wallet.name}`);
           console.log(`[TokenList] Raw trust line data from XRPL API:`);
           
           // Log each trust line in detail
           lines.forEach((line, idx) => {
+            const currency = Currency.fromLedger(line.currency);
             console.log(`[TokenList] Trust Line [${idx}]:`, {
               currency: line.currency,
-              currencyType: typeof line.currency,
-              currencyLength: line.currency.length,
-              isHex: /^[0-9A-F]{40}$/i.test(line.currency),
+              currencyKind: currency.kind,
+              display: currency.display(),
               account: line.account,
               balance: line.balance,
               limit: line.limit
             });
             
-            // Try to decode if it's hex
-            if (line.currency.length === 40 && /^[0-9A-F]{40}$/i.test(line.currency)) {
-              const decoded = hexToString(line.currency);
-              console.log(`[TokenList]   -> Hex decoded: "${decoded}"`);
+            if (currency.kind === 'invalid') {
+              console.warn(`[TokenList]   -> Invalid currency code: ${currency.reason}`);
             }
           });
           
@@ -132,33 +161,32 @@ function TokenList({ onTokenSelect, refreshTrigger }: TokenListProps) {
           console.log(`[TokenList]   Total trust lines: ${lines.length}`);
           console.log(`[TokenList]   Whitelisted tokens: ${filteredLines.length}`);
           
-          const tokensWithAccount: Token[] = filteredLines.map(line => {
-            // Decode hex currency codes for display
-            let displayCurrency = line.currency;
-            if (line.currency.length === 40 && /^[0-9A-F]{40}$/i.test(line.currency)) {
-              displayCurrency = hexToString(line.currency);
-            }
-            
-            return {
-              currency: displayCurrency,
-              issuer: line.account, // The 'account' field in trust line is the issuer
-              balance: line.balance,
-              limit: line.limit,
-              account: wallet.name
-            };
-          });
+          const tokensWithAccount: Token[] = filteredLines.map(line => ({
+            currency: line.currency,
+            issuer: line.account, // The 'account' field in trust line is the issuer
+            balance: line.balance,
+            limit: line.limit,
+            account: wallet.name
+          }));
           
-          allTokens.push(...tokensWithAccount);
+          return tokensWithAccount;
         } catch (walletError) {
-          const errorMsg = walletError instanceof Error ? walletError.message : 'Unknown error';
+          if (isAbortError(walletError)) {
+            throw walletError;
+          }
+
+          const errorMsg = describeXRPLError(walletError, 'Unknown error');
           console.error(`[TokenList] Failed to fetch data for ${wallet.name}:`, walletError);
           errors.push({
             wallet: wallet.name,
             address: wallet.address,
             error: errorMsg
           });
+          return [];
         }
-      }
+      }));
+      
+      const allTokens = tokensPerWallet.flat();
       
       console.log(`[TokenList] ========================================`);
       console.log(`[TokenList] FINAL RESULTS:`);
@@ -169,7 +197,11 @@ function TokenList({ onTokenSelect, refreshTrigger }: TokenListProps) {
       setTokens(allTokens);
       setWalletErrors(errors);
     } catch (err) {
-      const errorMsg = err instanceof Error ? err.message : 'Failed to load tokens';
+      if (isAbortError(err)) {
+        console.log('[TokenList] Load cancelled');
+        return;
+      }
+      const errorMsg = describeXRPLError(err, 'Failed to load tokens');
       console.error('[TokenList] Error loading tokens:', err);
       setWalletErrors([{
         wallet: 'System',
@@ -177,7 +209,9 @@ function TokenList({ onTokenSelect, refreshTrigger }: TokenListProps) {
         error: errorMsg
       }]);
     } finally {
-      setLoading(false);
+      if (loadControllerRef.current === controller) {
+        setLoading(false);
+      }
     }
   };
 
@@ -185,6 +219,16 @@ function TokenList({ onTokenSelect, refreshTrigger }: TokenListProps) {
     loadTokens();
   }, [refreshTrigger]);
 
+  // Stop any load still running when the list unmounts
+  useEffect(() => () => loadControllerRef.current?.abort(), []);
+
+  useAccountUpdates(wallets.map(wallet => wallet.address), (changed) => {
+    console.log('[TokenList] Ledger update for', changed, '- refreshing balances');
+    loadTokens({ silent: true });
+  });
+
+  const { quotes, loading: pricing } = useTokenQuotes(tokens);
+
   if (loading) {
     return (
       <>
@@ -193,7 +237,10 @@ function TokenList({ onTokenSelect, refreshTrigger }: TokenListProps) {
             <Coins className="h-5 w-5" />
             Token Portfolio
           </CardTitle>
-          <CardDescription>Loading your XRPL tokens...</CardDescription>
+          <CardDescription>
+            Loading your XRPL tokens...
+            {linesLoaded > 0 && ` (${linesLoaded.toLocaleString()} trust lines scanned)`}
+          </CardDescription>
         </CardHeader>
         <CardContent className="space-y-3">
           {[1, 2, 3, 4].map((i) => (
@@ -231,14 +278,14 @@ function TokenList({ onTokenSelect, refreshTrigger }: TokenListProps) {
               <div className="mt-4 p-3 bg-destructive/10 rounded-md border border-destructive/20">
                 <p className="text-sm font-semibold mb-2">Troubleshooting:</p>
                 <ul className="text-sm space-y-1 list-disc list-inside">
-                  <li>Check that wallet addresses are valid XRPL addresses (start with 'r', 25-35 characters)</li>
+                  <li>Check that wallet addresses are valid XRPL addresses (start with 'r' and pass the checksum)</li>
                   <li>Verify the XRPL server is accessible</li>
                   <li>Open browser console (F12) for detailed error logs</li>
                 </ul>
               </div>
               
               <Button 
-                onClick={loadTokens} 
+                onClick={() => loadTokens()} 
                 variant="outline" 
                 size="sm"
                 className="mt-3"
@@ -263,7 +310,7 @@ function TokenList({ onTokenSelect, refreshTrigger }: TokenListProps) {
         <CardDescription>
           {tokens.length > 0 ? (
             <>
-              Tracking {tokens.length} token{tokens.length !== 1 ? 's' : ''} across {WALLETS.length} wallets
+              Tracking {tokens.length} token{tokens.length !== 1 ? 's' : ''} across {wallets.length} wallets
               {walletErrors.length > 0 && (
                 <span className="text-destructive ml-2">
                   ({walletErrors.length} wallet{walletErrors.length > 1 ? 's' : ''} failed)
@@ -290,7 +337,7 @@ function TokenList({ onTokenSelect, refreshTrigger }: TokenListProps) {
                 ))}
               </ul>
               <Button 
-                onClick={loadTokens} 
+                onClick={() => loadTokens()} 
                 variant="outline" 
                 size="sm"
                 className="mt-3"
@@ -334,7 +381,7 @@ function TokenList({ onTokenSelect, refreshTrigger }: TokenListProps) {
                 <div className="flex-1">
                   <div className="flex items-center gap-2 mb-1">
                     <h3 className="font-semibold text-lg group-hover:text-chart-1 transition-colors">
-                      {token.currency}
+                      {Currency.fromLedger(token.currency).display()}
                     </h3>
                     <Badge variant="outline" className="text-xs">
                       {token.account}
@@ -345,7 +392,8 @@ function TokenList({ onTokenSelect, refreshTrigger }: TokenListProps) {
                   </p>
                 </div>
                 <div className="text-right ml-4">
-                  <p className="text-xl font-bold">{parseFloat(token.balance).toFixed(2)}</p>
+                  <p className="text-xl font-bold">{formatIOU(token.balance)}</p>
+                  <TokenValue balance={token.balance} quote={quotes.get(tokenKey(token))} loading={pricing} />
                   <div className="flex items-center gap-1 text-xs text-muted-foreground">
                     <TrendingUp className="h-3 w-3" />
                     View Details
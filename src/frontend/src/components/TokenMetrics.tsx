@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -7,18 +7,31 @@ import { AlertCircle, Wallet, TrendingUp, Users, RefreshCw, ChevronDown, Chevron
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { Token } from '@/pages/Dashboard';
-import { fetchAccountLines, validateXRPLAddress, TrustLine } from '@/lib/xrpl';
-import { hexToString } from '@/lib/tokenConfig';
+import TrustLineBadges from '@/components/TrustLineBadges';
+import TokenSupply from '@/components/TokenSupply';
+import TokenHolders from '@/components/TokenHolders';
+import NFTCollectionExplorer from '@/components/NFTCollectionExplorer';
+import OrderBookDepth from '@/components/OrderBookDepth';
+import AMMPool from '@/components/AMMPool';
+import { fetchAllAccountLines, validateXRPLAddress, TrustLine } from '@/lib/xrpl';
+import { Currency, isSameCurrency } from '@/lib/currency';
+import { useAccountUpdates } from '@/hooks/useLedgerStream';
+import { loadMonitoredWallets } from '@/lib/wallets';
+import type { ClassicAddress } from '@/lib/addressCodec';
+import { IOUValue, formatIOU } from '@/lib/amount';
+import { isAbortError } from '@/lib/scheduler';
+import { describeXRPLError } from '@/lib/xrplErrors';
 
 interface TokenMetricsProps {
   token: Token;
-  onWalletSelect: (wallet: string) => void;
+  onWalletSelect: (wallet: ClassicAddress) => void;
 }
 
 interface WalletHolding {
-  address: string;
+  address: ClassicAddress;
   name: string;
   balance: string;
+  line: TrustLine;
 }
 
 interface WalletError {
@@ -27,17 +40,17 @@ interface WalletError {
   error: string;
 }
 
+interface LoadOptions {
+  // Refresh in place without replacing the view with skeletons
+  silent?: boolean;
+}
+
 interface WalletTrustLines {
   address: string;
   name: string;
   trustLines: TrustLine[];
 }
 
-const MONITORED_WALLETS = [
-  { address: 'rdRvw4pKmEtSnz3cjXBL6HLJJmejtkoQ4', name: 'GreedyJEW Issuer' },
-  { address: 'rw3DPxgusRrvdsbXSjHdXD14ogkNidTTRx', name: 'Project Dev Wallet' }
-];
-
 // Helper function to check if a wallet is relevant for the selected token
 function isWalletRelevantForToken(
   trustLines: TrustLine[],
@@ -46,11 +59,11 @@ function isWalletRelevantForToken(
 ): boolean {
   return trustLines.some(line => {
     // Match currency (handle both standard and hex-encoded)
-    const currencyMatches = line.currency === tokenCurrency;
+    const currencyMatches = isSameCurrency(line.currency, tokenCurrency);
     // Match issuer
     const issuerMatches = line.account === tokenIssuer;
     // Check for non-zero balance
-    const hasBalance = parseFloat(line.balance) !== 0;
+    const hasBalance = !IOUValue.parse(line.balance).isZero();
     
     return currencyMatches && issuerMatches && hasBalance;
   });
@@ -66,18 +79,27 @@ function TokenMetrics({ token, onWalletSelect }: TokenMetricsProps) {
   const [trustLinesLoading, setTrustLinesLoading] = useState(false);
   const [trustLinesErrors, setTrustLinesErrors] = useState<WalletError[]>([]);
   const [expandedWallets, setExpandedWallets] = useState<Set<string>>(new Set());
+  const [monitoredWallets] = useState(loadMonitoredWallets);
+  const holdingsControllerRef = useRef<AbortController | null>(null);
+  const trustLinesControllerRef = useRef<AbortController | null>(null);
+
+  const loadHoldings = async ({ silent = false }: LoadOptions = {}) => {
+    // A newer load supersedes any that is still running
+    holdingsControllerRef.current?.abort();
+    const controller = new AbortController();
+    holdingsControllerRef.current = controller;
 
-  const loadHoldings = async () => {
     console.log(`[TokenMetrics] Loading holdings for token: ${token.currency} (${token.issuer})`);
     
     try {
-      setLoading(true);
-      setWalletErrors([]);
+      if (!silent) {
+        setLoading(true);
+        setWalletErrors([]);
+      }
       
-      const walletHoldings: WalletHolding[] = [];
       const errors: WalletError[] = [];
       
-      for (const wallet of MONITORED_WALLETS) {
+      const results = await Promise.all(monitoredWallets.map(async (wallet): Promise<WalletHolding | null> => {
         if (!validateXRPLAddress(wallet.address)) {
           const errorMsg = `Invalid XRPL address format`;
           console.error(`[TokenMetrics] Invalid address for ${wallet.name}:`, wallet.address);
@@ -86,46 +108,60 @@ function TokenMetrics({ token, onWalletSelect }: TokenMetricsProps) {
             address: wallet.address,
             error: errorMsg
           });
-          continue;
+          return null;
         }
         
         console.log(`[TokenMetrics] Checking ${wallet.name} for ${token.currency}`);
         
         try {
-          const lines = await fetchAccountLines(wallet.address);
+          const lines = await fetchAllAccountLines(wallet.address, {
+            signal: controller.signal,
+            priority: silent ? 'low' : 'high'
+          });
           console.log(`[TokenMetrics] Retrieved ${lines.length} trust lines for ${wallet.name}`);
           
           // In trust lines, the 'account' field is the issuer
           const matchingLine = lines.find(
-            line => line.currency === token.currency && line.account === token.issuer
+            line => isSameCurrency(line.currency, token.currency) && line.account === token.issuer
           );
           
-          if (matchingLine) {
-            console.log(`[TokenMetrics] Found matching line in ${wallet.name}:`, matchingLine);
-            walletHoldings.push({
-              address: wallet.address,
-              name: wallet.name,
-              balance: matchingLine.balance
-            });
-          } else {
+          if (!matchingLine) {
             console.log(`[TokenMetrics] No matching line found in ${wallet.name}`);
+            return null;
           }
+          
+          console.log(`[TokenMetrics] Found matching line in ${wallet.name}:`, matchingLine);
+          return {
+            address: wallet.address,
+            name: wallet.name,
+            balance: matchingLine.balance,
+            line: matchingLine
+          };
         } catch (walletError) {
-          const errorMsg = walletError instanceof Error ? walletError.message : 'Unknown error';
+          if (isAbortError(walletError)) {
+            throw walletError;
+          }
+          const errorMsg = describeXRPLError(walletError, 'Unknown error');
           console.error(`[TokenMetrics] Failed to fetch data for ${wallet.name}:`, walletError);
           errors.push({
             wallet: wallet.name,
             address: wallet.address,
             error: errorMsg
           });
+          return null;
         }
-      }
+      }));
       
+      const walletHoldings = results.filter((holding): holding is WalletHolding => holding !== null);
       console.log(`[TokenMetrics] Total holdings found: ${walletHoldings.length}`);
       setHoldings(walletHoldings);
       setWalletErrors(errors);
     } catch (err) {
-      const errorMsg = err instanceof Error ? err.message : 'Failed to load holdings';
+      if (isAbortError(err)) {
+        console.log('[TokenMetrics] Holdings load cancelled');
+        return;
+      }
+      const errorMsg = describeXRPLError(err, 'Failed to load holdings');
       console.error('[TokenMetrics] Error loading holdings:', err);
       setWalletErrors([{
         wallet: 'System',
@@ -133,21 +169,28 @@ function TokenMetrics({ token, onWalletSelect }: TokenMetricsProps) {
         error: errorMsg
       }]);
     } finally {
-      setLoading(false);
+      if (holdingsControllerRef.current === controller) {
+        setLoading(false);
+      }
     }
   };
 
-  const loadTrustLines = async () => {
+  const loadTrustLines = async ({ silent = false }: LoadOptions = {}) => {
+    trustLinesControllerRef.current?.abort();
+    const controller = new AbortController();
+    trustLinesControllerRef.current = controller;
+
     console.log(`[TokenMetrics] Loading all trust lines for monitored wallets`);
     
     try {
-      setTrustLinesLoading(true);
-      setTrustLinesErrors([]);
+      if (!silent) {
+        setTrustLinesLoading(true);
+        setTrustLinesErrors([]);
+      }
       
-      const allWalletTrustLines: WalletTrustLines[] = [];
       const errors: WalletError[] = [];
       
-      for (const wallet of MONITORED_WALLETS) {
+      const results = await Promise.all(monitoredWallets.map(async (wallet): Promise<WalletTrustLines | null> => {
         if (!validateXRPLAddress(wallet.address)) {
           const errorMsg = `Invalid XRPL address format`;
           console.error(`[TokenMetrics] Invalid address for ${wallet.name}:`, wallet.address);
@@ -156,42 +199,56 @@ function TokenMetrics({ token, onWalletSelect }: TokenMetricsProps) {
             address: wallet.address,
             error: errorMsg
           });
-          continue;
+          return null;
         }
         
         console.log(`[TokenMetrics] Fetching all trust lines for ${wallet.name}`);
         
         try {
-          const lines = await fetchAccountLines(wallet.address);
+          // The holdings summary above is what the user reads first
+          const lines = await fetchAllAccountLines(wallet.address, {
+            signal: controller.signal,
+            priority: silent ? 'low' : 'normal'
+          });
           console.log(`[TokenMetrics] Retrieved ${lines.length} trust lines for ${wallet.name}`);
           
           // Only add wallet if it's relevant for the selected token
-          if (isWalletRelevantForToken(lines, token.currency, token.issuer)) {
-            console.log(`[TokenMetrics] ${wallet.name} is relevant for ${token.currency}`);
-            allWalletTrustLines.push({
-              address: wallet.address,
-              name: wallet.name,
-              trustLines: lines
-            });
-          } else {
+          if (!isWalletRelevantForToken(lines, token.currency, token.issuer)) {
             console.log(`[TokenMetrics] ${wallet.name} is not relevant for ${token.currency} (no non-zero balance)`);
+            return null;
           }
+          
+          console.log(`[TokenMetrics] ${wallet.name} is relevant for ${token.currency}`);
+          return {
+            address: wallet.address,
+            name: wallet.name,
+            trustLines: lines
+          };
         } catch (walletError) {
-          const errorMsg = walletError instanceof Error ? walletError.message : 'Unknown error';
+          if (isAbortError(walletError)) {
+            throw walletError;
+          }
+          const errorMsg = describeXRPLError(walletError, 'Unknown error');
           console.error(`[TokenMetrics] Failed to fetch trust lines for ${wallet.name}:`, walletError);
           errors.push({
             wallet: wallet.name,
             address: wallet.address,
             error: errorMsg
           });
+          return null;
         }
-      }
+      }));
       
+      const allWalletTrustLines = results.filter((wallet): wallet is WalletTrustLines => wallet !== null);
       console.log(`[TokenMetrics] Total wallets with relevant trust lines: ${allWalletTrustLines.length}`);
       setWalletTrustLines(allWalletTrustLines);
       setTrustLinesErrors(errors);
     } catch (err) {
-      const errorMsg = err instanceof Error ? err.message : 'Failed to load trust lines';
+      if (isAbortError(err)) {
+        console.log('[TokenMetrics] Trust line load cancelled');
+        return;
+      }
+      const errorMsg = describeXRPLError(err, 'Failed to load trust lines');
       console.error('[TokenMetrics] Error loading trust lines:', err);
       setTrustLinesErrors([{
         wallet: 'System',
@@ -199,7 +256,9 @@ function TokenMetrics({ token, onWalletSelect }: TokenMetricsProps) {
         error: errorMsg
       }]);
     } finally {
-      setTrustLinesLoading(false);
+      if (trustLinesControllerRef.current === controller) {
+        setTrustLinesLoading(false);
+      }
     }
   };
 
@@ -208,6 +267,18 @@ function TokenMetrics({ token, onWalletSelect }: TokenMetricsProps) {
     loadTrustLines();
   }, [token]);
 
+  // Stop any loads still running when the view unmounts
+  useEffect(() => () => {
+    holdingsControllerRef.current?.abort();
+    trustLinesControllerRef.current?.abort();
+  }, []);
+
+  useAccountUpdates(monitoredWallets.map(wallet => wallet.address), (changed) => {
+    console.log('[TokenMetrics] Ledger update for', changed, '- refreshing holdings');
+    loadHoldings({ silent: true });
+    loadTrustLines({ silent: true });
+  });
+
   const toggleWalletExpanded = (address: string) => {
     setExpandedWallets(prev => {
       const newSet = new Set(prev);
@@ -220,7 +291,11 @@ function TokenMetrics({ token, onWalletSelect }: TokenMetricsProps) {
     });
   };
 
-  const totalBalance = holdings.reduce((sum, h) => sum + parseFloat(h.balance), 0);
+  const totalBalance = IOUValue.sum(holdings.map(h => IOUValue.parse(h.balance)));
+
+  // Percentages are display-only, so float division is fine here
+  const shareOfTotal = (balance: string): number =>
+    totalBalance.isZero() ? 0 : (IOUValue.parse(balance).toNumber() / totalBalance.toNumber()) * 100;
 
   if (loading) {
     return (
@@ -242,7 +317,7 @@ function TokenMetrics({ token, onWalletSelect }: TokenMetricsProps) {
     return (
       <>
         <CardHeader>
-          <CardTitle>{token.currency}</CardTitle>
+          <CardTitle>{Currency.fromLedger(token.currency).display()}</CardTitle>
         </CardHeader>
         <CardContent>
           <Alert variant="destructive">
@@ -292,7 +367,7 @@ function TokenMetrics({ token, onWalletSelect }: TokenMetricsProps) {
       <CardHeader>
         <div className="flex items-start justify-between">
           <div>
-            <CardTitle className="text-3xl mb-2">{token.currency}</CardTitle>
+            <CardTitle className="text-3xl mb-2">{Currency.fromLedger(token.currency).display()}</CardTitle>
             <CardDescription className="font-mono text-xs">
               {token.issuer}
             </CardDescription>
@@ -331,12 +406,14 @@ function TokenMetrics({ token, onWalletSelect }: TokenMetricsProps) {
           </Alert>
         )}
         
+        <TokenSupply token={token} />
+
         <div className="mb-6 p-4 rounded-lg bg-gradient-to-br from-chart-1/10 to-chart-2/10 border border-chart-1/20">
           <div className="flex items-center gap-2 text-sm text-muted-foreground mb-1">
             <TrendingUp className="h-4 w-4" />
-            Total Holdings
+            Held by Monitored Wallets
           </div>
-          <p className="text-4xl font-bold">{totalBalance.toFixed(2)}</p>
+          <p className="text-4xl font-bold">{formatIOU(totalBalance)}</p>
           <p className="text-sm text-muted-foreground mt-1">
             Across {holdings.length} wallet{holdings.length !== 1 ? 's' : ''}
           </p>
@@ -371,11 +448,12 @@ function TokenMetrics({ token, onWalletSelect }: TokenMetricsProps) {
                       <p className="text-xs text-muted-foreground font-mono truncate">
                         {holding.address}
                       </p>
+                      <TrustLineBadges line={holding.line} />
                     </div>
                     <div className="text-right ml-4">
-                      <p className="text-2xl font-bold">{parseFloat(holding.balance).toFixed(2)}</p>
+                      <p className="text-2xl font-bold">{formatIOU(holding.balance)}</p>
                       <p className="text-xs text-muted-foreground">
-                        {((parseFloat(holding.balance) / totalBalance) * 100).toFixed(1)}% of total
+                        {shareOfTotal(holding.balance).toFixed(1)}% of total
                       </p>
                     </div>
                   </div>
@@ -385,6 +463,22 @@ function TokenMetrics({ token, onWalletSelect }: TokenMetricsProps) {
           )}
         </div>
 
+        <div className="mt-8 pt-6 border-t border-border/50">
+          <OrderBookDepth token={token} />
+        </div>
+
+        <div className="mt-8 pt-6 border-t border-border/50">
+          <AMMPool token={token} />
+        </div>
+
+        <div className="mt-8 pt-6 border-t border-border/50">
+          <TokenHolders token={token} onWalletSelect={onWalletSelect} />
+        </div>
+
+        <div className="mt-8 pt-6 border-t border-border/50">
+          <NFTCollectionExplorer issuer={token.issuer} onWalletSelect={onWalletSelect} />
+        </div>
+
         {/* Layer 2 Trust Lines Section */}
         <div className="mt-8 pt-6 border-t border-border/50">
           <div className="flex items-center gap-2 mb-4">
@@ -410,7 +504,7 @@ function TokenMetrics({ token, onWalletSelect }: TokenMetricsProps) {
                   ))}
                 </ul>
                 <Button 
-                  onClick={loadTrustLines} 
+                  onClick={() => loadTrustLines()} 
                   variant="outline" 
                   size="sm"
                   className="mt-2"
@@ -472,12 +566,10 @@ function TokenMetrics({ token, onWalletSelect }: TokenMetricsProps) {
                           ) : (
                             <div className="divide-y divide-border/30">
                               {walletData.trustLines.map((line, idx) => {
-                                const displayCurrency = line.currency.length === 40 
-                                  ? hexToString(line.currency) 
-                                  : line.currency;
-                                const balance = parseFloat(line.balance);
+                                const currency = Currency.fromLedger(line.currency);
+                                const balance = IOUValue.parse(line.balance);
                                 const isCurrentToken = 
-                                  line.currency === token.currency && 
+                                  isSameCurrency(line.currency, token.currency) && 
                                   line.account === token.issuer;
                                 
                                 return (
@@ -491,7 +583,7 @@ function TokenMetrics({ token, onWalletSelect }: TokenMetricsProps) {
                                       <div className="flex-1 min-w-0">
                                         <div className="flex items-center gap-2 mb-1">
                                           <p className="font-semibold text-sm truncate">
-                                            {displayCurrency}
+                                            {currency.display()}
                                           </p>
                                           {isCurrentToken && (
                                             <Badge variant="default" className="text-xs">
@@ -502,23 +594,24 @@ function TokenMetrics({ token, onWalletSelect }: TokenMetricsProps) {
                                         <p className="text-xs text-muted-foreground font-mono truncate">
                                           Issuer: {line.account}
                                         </p>
-                                        {line.currency.length === 40 && (
+                                        {currency.isHex() && (
                                           <p className="text-xs text-muted-foreground font-mono truncate mt-1">
                                             Hex: {line.currency}
                                           </p>
                                         )}
+                                        <TrustLineBadges line={line} />
                                       </div>
                                       <div className="text-right flex-shrink-0">
                                         <p className={`text-lg font-bold ${
-                                          balance > 0 ? 'text-success' : 
-                                          balance < 0 ? 'text-destructive' : 
-                                          'text-muted-foreground'
+                                          balance.isZero() ? 'text-muted-foreground' : 
+                                          balance.isNegative() ? 'text-destructive' : 
+                                          'text-success'
                                         }`}>
-                                          {balance.toFixed(2)}
+                                          {formatIOU(balance)}
                                         </p>
                                         {line.limit && (
                                           <p className="text-xs text-muted-foreground">
-                                            Limit: {parseFloat(line.limit).toFixed(0)}
+                                            Limit: {formatIOU(line.limit, { minimumFractionDigits: 0, maximumFractionDigits: 0 })}
                                           </p>
                                         )}
                                       </div>
@@ -0,0 +1,171 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertCircle, Coins, RefreshCw } from 'lucide-react';
+import { Token } from '@/pages/Dashboard';
+import { fetchGatewayBalances, validateXRPLAddress } from '@/lib/xrpl';
+import { computeTokenSupply, issuerWallets, type TokenSupply as Supply } from '@/lib/tokenSupply';
+import { Currency } from '@/lib/currency';
+import { formatIOU } from '@/lib/amount';
+import { getWalletLabel, loadMonitoredWallets } from '@/lib/wallets';
+import { useAccountUpdates } from '@/hooks/useLedgerStream';
+import { isAbortError } from '@/lib/scheduler';
+import { describeXRPLError } from '@/lib/xrplErrors';
+
+interface TokenSupplyProps {
+  token: Token;
+}
+
+interface LoadOptions {
+  // Refresh in place without replacing the figures with skeletons
+  silent?: boolean;
+}
+
+function TokenSupply({ token }: TokenSupplyProps) {
+  const [supply, setSupply] = useState<Supply | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [monitoredWallets] = useState(loadMonitoredWallets);
+  const loadControllerRef = useRef<AbortController | null>(null);
+
+  const excluded = issuerWallets(monitoredWallets, token.issuer);
+
+  const loadSupply = async ({ silent = false }: LoadOptions = {}) => {
+    loadControllerRef.current?.abort();
+    const controller = new AbortController();
+    loadControllerRef.current = controller;
+
+    if (!validateXRPLAddress(token.issuer)) {
+      setError(`Invalid issuer address: "${token.issuer}"`);
+      setLoading(false);
+      return;
+    }
+
+    console.log(`[TokenSupply] Loading supply for ${token.currency} (${token.issuer})`);
+
+    try {
+      if (!silent) {
+        setLoading(true);
+        setError(null);
+      }
+
+      const gateway = await fetchGatewayBalances(token.issuer, {
+        hotwallets: excluded.map(wallet => wallet.address),
+        signal: controller.signal,
+        priority: silent ? 'low' : 'high'
+      });
+
+      setSupply(computeTokenSupply(gateway, token.currency, monitoredWallets));
+      console.log(`[TokenSupply] Loaded supply at ledger ${gateway.ledgerIndex}`);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error('[TokenSupply] Error loading supply:', err);
+      if (!silent) {
+        setError(describeXRPLError(err, 'Failed to load token supply'));
+      }
+    } finally {
+      if (loadControllerRef.current === controller) {
+        setLoading(false);
+      }
+    }
+  };
+
+  useEffect(() => {
+    loadSupply();
+  }, [token]);
+
+  useEffect(() => () => loadControllerRef.current?.abort(), []);
+
+  useAccountUpdates([token.issuer, ...excluded.map(wallet => wallet.address)], () => {
+    console.log(`[TokenSupply] Ledger update for ${token.issuer} - refreshing supply`);
+    loadSupply({ silent: true });
+  });
+
+  if (loading) {
+    return <Skeleton className="h-40 w-full mb-6" />;
+  }
+
+  if (error || !supply) {
+    return (
+      <Alert variant="destructive" className="mb-6">
+        <AlertCircle className="h-4 w-4" />
+        <AlertTitle>Error Loading Supply</AlertTitle>
+        <AlertDescription className="space-y-2">
+          <p className="text-sm">{error}</p>
+          <Button onClick={() => loadSupply()} variant="outline" size="sm">
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Retry
+          </Button>
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  const figures = [
+    { label: 'Total Supply', value: supply.total },
+    { label: 'Hot Wallets', value: supply.hot },
+    { label: 'Operational', value: supply.operational },
+    { label: 'Circulating', value: supply.circulating }
+  ];
+
+  return (
+    <div className="mb-6 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">
+          Issued Supply
+        </h3>
+        <span className="text-xs text-muted-foreground">Ledger #{supply.ledgerIndex}</span>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {figures.map((figure) => (
+          <div key={figure.label} className="p-3 rounded-lg border border-border/50">
+            <p className="text-xs text-muted-foreground">{figure.label}</p>
+            <p className="text-xl font-bold">{formatIOU(figure.value)}</p>
+          </div>
+        ))}
+      </div>
+
+      {excluded.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          No monitored wallets have the hot or operational role, so circulating supply equals total supply.
+          Assign roles in the wallet settings to exclude them.
+        </p>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          Excluding {excluded.map(wallet => wallet.name).join(', ')} from circulating supply.
+        </p>
+      )}
+
+      {!supply.frozen.isZero() && (
+        <p className="text-xs text-destructive">{formatIOU(supply.frozen)} is held on frozen trust lines.</p>
+      )}
+
+      {supply.assets.length > 0 && (
+        <div>
+          <p className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+            <Coins className="h-3 w-3" />
+            Issuer holds other tokens
+          </p>
+          <div className="space-y-1">
+            {supply.assets.map((asset) => (
+              <div
+                key={`${asset.issuer}-${asset.currency}`}
+                className="flex items-center justify-between gap-3 text-sm p-2 rounded-lg bg-muted/30"
+              >
+                <span className="truncate">
+                  {Currency.fromLedger(asset.currency).display()}
+                  <span className="text-xs text-muted-foreground font-mono ml-2">{getWalletLabel(asset.issuer)}</span>
+                </span>
+                <span className="font-mono">{formatIOU(asset.value)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default TokenSupply;
@@ -0,0 +1,43 @@
+import { Badge } from '@/components/ui/badge';
+import { PRICE_SOURCE_LABELS, formatXRPValue, valueHolding, type TokenQuote } from '@/lib/pricing';
+
+interface TokenValueProps {
+  balance: string;
+  quote: TokenQuote | undefined;
+  loading: boolean;
+}
+
+// XRP value of a token balance with where the price came from
+function TokenValue({ balance, quote, loading }: TokenValueProps) {
+  if (!quote) {
+    return loading ? <p className="text-xs text-muted-foreground">Pricing…</p> : null;
+  }
+
+  if (quote.error) {
+    return (
+      <p className="text-xs text-muted-foreground" title={quote.error}>
+        Price unavailable
+      </p>
+    );
+  }
+
+  const value = valueHolding(balance, quote);
+  if (value === null || quote.source === null) {
+    return (
+      <Badge variant="outline" className="text-xs text-chart-4 border-chart-4/50">
+        No liquidity
+      </Badge>
+    );
+  }
+
+  return (
+    <div className="text-xs">
+      <p className="font-semibold">≈ {formatXRPValue(value)} XRP</p>
+      <p className="text-muted-foreground">
+        {PRICE_SOURCE_LABELS[quote.source]} · #{quote.ledgerIndex}
+      </p>
+    </div>
+  );
+}
+
+export default TokenValue;
@@ -0,0 +1,395 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertCircle, ArrowDownLeft, ArrowLeftRight, ArrowUpRight, History, Loader2, RefreshCw, X } from 'lucide-react';
+import { fetchAccountTransactions, type AccountTransaction } from '@/lib/xrpl';
+import {
+  decodeTransaction,
+  matchesTransactionFilters,
+  type TransactionDirection,
+  type TransactionFilters
+} from '@/lib/transactions';
+import { formatLedgerAmount } from '@/lib/amount';
+import { getWalletLabel } from '@/lib/wallets';
+import { isAbortError } from '@/lib/scheduler';
+import { describeXRPLError } from '@/lib/xrplErrors';
+import { useAccountUpdates } from '@/hooks/useLedgerStream';
+import type { ClassicAddress } from '@/lib/addressCodec';
+
+interface TransactionHistoryProps {
+  walletAddress: ClassicAddress;
+}
+
+const ALL = 'all';
+
+const COUNTERPARTY_PREFIXES: Record<TransactionDirection, string> = {
+  incoming: 'From',
+  outgoing: 'To',
+  affected: 'Sent by'
+};
+
+// Amounts that only passed through the account aren't a gain or a loss
+const AMOUNT_SIGNS: Record<TransactionDirection, string> = {
+  incoming: '+',
+  outgoing: '−',
+  affected: ''
+};
+
+// Start loading the next page a little before the end of the list is visible
+const SCROLL_THRESHOLD = '200px';
+
+// Append a page, skipping anything already in the list
+function mergeTransactions(existing: AccountTransaction[], incoming: AccountTransaction[]): AccountTransaction[] {
+  const seen = new Set(existing.map(entry => entry.tx.hash));
+  return [...existing, ...incoming.filter(entry => !seen.has(entry.tx.hash))];
+}
+
+// Monitored wallets by name, anything else as a shortened address
+function counterpartyLabel(address: string): string {
+  const label = getWalletLabel(address);
+  return label !== address ? label : `${address.slice(0, 8)}…${address.slice(-6)}`;
+}
+
+// Date inputs give local calendar days; the end day is included in full
+function parseDateInput(value: string, endOfDay: boolean): Date | null {
+  return value ? new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00'}`) : null;
+}
+
+function TransactionHistory({ walletAddress }: TransactionHistoryProps) {
+  const [transactions, setTransactions] = useState<AccountTransaction[]>([]);
+  const [marker, setMarker] = useState<unknown>(undefined);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pageError, setPageError] = useState<string | null>(null);
+  const [typeFilter, setTypeFilter] = useState(ALL);
+  const [currencyFilter, setCurrencyFilter] = useState(ALL);
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const controllerRef = useRef<AbortController | null>(null);
+  const loadingMoreRef = useRef(false);
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+
+  const loadFirstPage = async () => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    loadingMoreRef.current = false;
+
+    console.log(`[TransactionHistory] Loading transactions for ${walletAddress}`);
+
+    try {
+      setLoading(true);
+      setError(null);
+      setPageError(null);
+
+      const page = await fetchAccountTransactions(walletAddress, { signal: controller.signal, priority: 'high' });
+      setTransactions(page.transactions);
+      setMarker(page.marker);
+      setHasMore(page.marker !== undefined);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error('[TransactionHistory] Error loading transactions:', err);
+      setError(describeXRPLError(err, 'Failed to load transactions'));
+    } finally {
+      if (controllerRef.current === controller) {
+        setLoading(false);
+      }
+    }
+  };
+
+  const loadNextPage = async () => {
+    if (loadingMoreRef.current || !hasMore || loading) return;
+    const controller = controllerRef.current;
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+    setPageError(null);
+
+    try {
+      const page = await fetchAccountTransactions(walletAddress, {
+        marker,
+        signal: controller?.signal,
+        priority: 'normal'
+      });
+      console.log(`[TransactionHistory] Loaded ${page.transactions.length} older transactions`);
+      setTransactions(prev => mergeTransactions(prev, page.transactions));
+      setMarker(page.marker);
+      setHasMore(page.marker !== undefined);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error('[TransactionHistory] Error loading more transactions:', err);
+      setPageError(describeXRPLError(err, 'Failed to load more transactions'));
+    } finally {
+      if (controllerRef.current === controller) {
+        loadingMoreRef.current = false;
+        setLoadingMore(false);
+      }
+    }
+  };
+
+  // Pick up transactions validated since the first page was loaded
+  const loadNewest = async () => {
+    const controller = controllerRef.current;
+    try {
+      const page = await fetchAccountTransactions(walletAddress, { signal: controller?.signal, priority: 'low' });
+      setTransactions(prev => {
+        const seen = new Set(prev.map(entry => entry.tx.hash));
+        const fresh = page.transactions.filter(entry => !seen.has(entry.tx.hash));
+        if (fresh.length > 0) {
+          console.log(`[TransactionHistory] ${fresh.length} new transactions`);
+        }
+        return [...fresh, ...prev];
+      });
+    } catch (err) {
+      // The list still shows what it had; the next ledger update tries again
+      if (!isAbortError(err)) {
+        console.warn('[TransactionHistory] Failed to refresh newest transactions:', err);
+      }
+    }
+  };
+
+  useEffect(() => {
+    loadFirstPage();
+  }, [walletAddress]);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  useAccountUpdates([walletAddress], () => {
+    if (!loading) {
+      loadNewest();
+    }
+  });
+
+  // The observer reports the sentinel's state when it starts observing, so
+  // recreating it after each page keeps loading while the sentinel is still
+  // in view (e.g. when filters hide most of a page)
+  const loadNextPageRef = useRef(loadNextPage);
+  loadNextPageRef.current = loadNextPage;
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || loading || pageError) return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        loadNextPageRef.current();
+      }
+    }, { rootMargin: SCROLL_THRESHOLD });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loading, pageError, transactions.length]);
+
+  const decoded = useMemo(
+    () => transactions.map(entry => decodeTransaction(entry, walletAddress)),
+    [transactions, walletAddress]
+  );
+  const typeOptions = useMemo(
+    () => [...new Map(decoded.map(tx => [tx.type, tx.typeLabel])).entries()].sort((a, b) => a[1].localeCompare(b[1])),
+    [decoded]
+  );
+  const currencyOptions = useMemo(
+    () => [...new Set(decoded.flatMap(tx => tx.currencies))].sort(),
+    [decoded]
+  );
+  const filters: TransactionFilters = {
+    type: typeFilter === ALL ? null : typeFilter,
+    currency: currencyFilter === ALL ? null : currencyFilter,
+    from: parseDateInput(fromDate, false),
+    to: parseDateInput(toDate, true)
+  };
+  const visible = decoded.filter(tx => matchesTransactionFilters(tx, filters));
+  const hasFilters = typeFilter !== ALL || currencyFilter !== ALL || fromDate !== '' || toDate !== '';
+
+  const clearFilters = () => {
+    setTypeFilter(ALL);
+    setCurrencyFilter(ALL);
+    setFromDate('');
+    setToDate('');
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-2">
+        {[1, 2, 3, 4].map((i) => (
+          <Skeleton key={i} className="h-16 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertTitle>Error Loading Transactions</AlertTitle>
+        <AlertDescription className="space-y-3 mt-2">
+          <p>{error}</p>
+          <Button onClick={() => loadFirstPage()} variant="outline" size="sm">
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Retry Loading
+          </Button>
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (transactions.length === 0) {
+    return (
+      <Alert>
+        <History className="h-4 w-4" />
+        <AlertTitle>No Transactions</AlertTitle>
+        <AlertDescription>
+          This wallet has no validated transactions on this network.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs">Type</Label>
+          <Select value={typeFilter} onValueChange={setTypeFilter}>
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All types</SelectItem>
+              {typeOptions.map(([type, label]) => (
+                <SelectItem key={type} value={type}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Currency</Label>
+          <Select value={currencyFilter} onValueChange={setCurrencyFilter}>
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All currencies</SelectItem>
+              {currencyOptions.map((currency) => (
+                <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="tx-from" className="text-xs">From</Label>
+          <Input id="tx-from" type="date" className="h-9" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="tx-to" className="text-xs">To</Label>
+          <Input id="tx-to" type="date" className="h-9" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>
+          Showing {visible.length} of {transactions.length} loaded transactions
+        </span>
+        {hasFilters && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-xs"
+            onClick={clearFilters}
+          >
+            <X className="h-3 w-3 mr-1" />
+            Clear filters
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        {visible.map((tx) => (
+          <div
+            key={tx.hash}
+            className="p-3 rounded-lg border border-border/50 hover:border-chart-1/50 hover:bg-accent/30 transition-all"
+          >
+            <div className="flex items-start justify-between gap-3">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 mb-1">
+                  {tx.direction === 'incoming' ? (
+                    <ArrowDownLeft className="h-4 w-4 text-chart-3 shrink-0" />
+                  ) : tx.direction === 'outgoing' ? (
+                    <ArrowUpRight className="h-4 w-4 text-muted-foreground shrink-0" />
+                  ) : (
+                    <ArrowLeftRight className="h-4 w-4 text-muted-foreground shrink-0" />
+                  )}
+                  <p className="font-semibold text-sm">{tx.typeLabel}</p>
+                  <Badge variant={tx.succeeded ? 'outline' : 'destructive'} className="text-xs font-mono">
+                    {tx.result}
+                  </Badge>
+                </div>
+                {tx.counterparty && (
+                  <p className="text-xs text-muted-foreground truncate" title={tx.counterparty}>
+                    {COUNTERPARTY_PREFIXES[tx.direction]}{' '}
+                    <span className="font-mono">{counterpartyLabel(tx.counterparty)}</span>
+                  </p>
+                )}
+                <p className="text-xs text-muted-foreground font-mono truncate" title={tx.hash}>
+                  {tx.date ? tx.date.toLocaleString() : `Ledger ${tx.ledgerIndex}`} · {tx.hash.slice(0, 12)}…
+                </p>
+              </div>
+              {tx.deliveredAmount && (
+                <div className="text-right shrink-0">
+                  <p className={`font-bold ${tx.succeeded && tx.direction === 'incoming' ? 'text-chart-3' : ''} ${tx.direction === 'affected' ? 'text-muted-foreground' : ''}`}>
+                    {AMOUNT_SIGNS[tx.direction]}{formatLedgerAmount(tx.deliveredAmount)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {tx.direction === 'affected' ? 'Delivered to another account' : 'Delivered'}
+                  </p>
+                </div>
+              )}
+            </div>
+          </div>
+        ))}
+
+        {visible.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No loaded transactions match these filters{hasMore ? '; older history is loading as you scroll.' : '.'}
+          </p>
+        )}
+      </div>
+
+      {pageError && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription className="flex items-center justify-between gap-3">
+            <span>{pageError}</span>
+            <Button onClick={() => loadNextPage()} variant="outline" size="sm">
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Retry
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {hasMore ? (
+        <div ref={sentinelRef} className="flex justify-center py-3 text-xs text-muted-foreground">
+          {loadingMore && (
+            <span className="flex items-center gap-2">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading older transactions...
+            </span>
+          )}
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground text-center py-3">
+          Beginning of history
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default TransactionHistory;
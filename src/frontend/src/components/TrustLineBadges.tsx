@@ -0,0 +1,68 @@
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle } from 'lucide-react';
+import { formatQuality, trustLineStatus, type TrustLineRole, type TrustLineStatus } from '@/lib/trustLines';
+import type { TrustLine } from '@/lib/xrpl';
+
+interface TrustLineBadgesProps {
+  line: TrustLine;
+}
+
+// The other side of the line from this account's point of view
+const PEER_ROLES: Record<TrustLineRole, TrustLineRole> = {
+  holder: 'issuer',
+  issuer: 'holder'
+};
+
+// "self" and "peer" are relative to the viewed account, which may be either side
+function partyName(status: TrustLineStatus, side: 'self' | 'peer'): TrustLineRole {
+  return side === 'self' ? status.role : PEER_ROLES[status.role];
+}
+
+function frozenLabel(status: TrustLineStatus): string | null {
+  if (!status.frozenBy) {
+    return null;
+  }
+  return status.frozenBy === 'both'
+    ? 'Frozen by both sides'
+    : `Frozen by ${partyName(status, status.frozenBy)}`;
+}
+
+function TrustLineBadges({ line }: TrustLineBadgesProps) {
+  const status = trustLineStatus(line);
+  const frozen = frozenLabel(status);
+
+  return (
+    <div className="space-y-1 mt-1">
+      <div className="flex flex-wrap gap-1">
+        {frozen && (
+          <Badge variant="destructive" className="text-xs">
+            {frozen}
+          </Badge>
+        )}
+        {status.authorizedByPeer && (
+          <Badge variant="secondary" className="text-xs">Authorized by {partyName(status, 'peer')}</Badge>
+        )}
+        {status.authorizedBySelf && (
+          <Badge variant="secondary" className="text-xs">Authorized by {partyName(status, 'self')}</Badge>
+        )}
+        <Badge variant="outline" className="text-xs">
+          {status.rippling ? 'Rippling' : 'No ripple'}
+        </Badge>
+        {status.qualityIn !== null && (
+          <Badge variant="outline" className="text-xs">In {formatQuality(status.qualityIn)}</Badge>
+        )}
+        {status.qualityOut !== null && (
+          <Badge variant="outline" className="text-xs">Out {formatQuality(status.qualityOut)}</Badge>
+        )}
+      </div>
+      {status.ripplingWarning && (
+        <p className="flex items-start gap-1 text-xs text-chart-4">
+          <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+          {status.ripplingWarning}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default TrustLineBadges;
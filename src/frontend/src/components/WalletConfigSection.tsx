@@ -0,0 +1,192 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Trash2, Plus, AlertCircle } from 'lucide-react';
+import {
+  loadMonitoredWallets,
+  addMonitoredWallet,
+  removeMonitoredWallet,
+  setWalletRole,
+  walletRole,
+  WALLET_ROLE_LABELS,
+  type MonitoredWallet,
+  type MonitoredWalletInput,
+  type WalletRole,
+} from '@/lib/wallets';
+import { toast } from 'sonner';
+
+interface WalletConfigSectionProps {
+  open: boolean;
+  networkName: string;
+  onConfigChange?: () => void;
+}
+
+function RoleSelect({ value, onChange }: { value: WalletRole; onChange: (role: WalletRole) => void }) {
+  return (
+    <Select value={value} onValueChange={(role) => onChange(role as WalletRole)}>
+      <SelectTrigger className="h-9 w-[9rem]">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {(Object.keys(WALLET_ROLE_LABELS) as WalletRole[]).map((role) => (
+          <SelectItem key={role} value={role}>
+            {WALLET_ROLE_LABELS[role]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function WalletConfigSection({ open, networkName, onConfigChange }: WalletConfigSectionProps) {
+  const [wallets, setWallets] = useState<MonitoredWallet[]>([]);
+  const [formData, setFormData] = useState<MonitoredWalletInput>({ address: '', name: '', role: 'other' });
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setWallets(loadMonitoredWallets());
+      setError('');
+    }
+  }, [open]);
+
+  const handleAdd = () => {
+    try {
+      setError('');
+      if (!formData.address.trim()) {
+        setError('Wallet address is required');
+        return;
+      }
+
+      addMonitoredWallet({
+        address: formData.address.trim(),
+        name: formData.name.trim() || formData.address.trim(),
+        role: formData.role
+      });
+      setWallets(loadMonitoredWallets());
+      setFormData({ address: '', name: '', role: 'other' });
+      toast.success('Wallet added successfully');
+      onConfigChange?.();
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Failed to add wallet';
+      setError(errorMsg);
+      toast.error(errorMsg);
+    }
+  };
+
+  const handleRoleChange = (address: string, role: WalletRole) => {
+    try {
+      setWalletRole(address, role);
+      setWallets(loadMonitoredWallets());
+      onConfigChange?.();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update wallet');
+    }
+  };
+
+  const handleDelete = (address: string) => {
+    try {
+      removeMonitoredWallet(address);
+      setWallets(loadMonitoredWallets());
+      toast.success('Wallet removed successfully');
+      onConfigChange?.();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to remove wallet');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <h3 className="font-semibold text-sm">
+        Monitored Wallets on {networkName} ({wallets.length})
+      </h3>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex gap-2">
+        <Input
+          placeholder="Wallet address (r... or X...)"
+          value={formData.address}
+          onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+          className="font-mono text-sm"
+        />
+        <Input
+          placeholder="Label"
+          value={formData.name}
+          onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+          className="max-w-[12rem]"
+        />
+        <RoleSelect
+          value={formData.role ?? 'other'}
+          onChange={(role) => setFormData({ ...formData, role })}
+        />
+        <Button onClick={handleAdd} size="sm" variant="outline" className="h-9">
+          <Plus className="h-4 w-4 mr-2" />
+          Add
+        </Button>
+      </div>
+
+      {wallets.length === 0 ? (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            No wallets monitored on {networkName}. Add a wallet to see its token holdings.
+          </AlertDescription>
+        </Alert>
+      ) : (
+        <div className="border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Label</TableHead>
+                <TableHead>Address</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {wallets.map((wallet) => (
+                <TableRow key={wallet.address}>
+                  <TableCell className="font-medium">{wallet.name}</TableCell>
+                  <TableCell className="font-mono text-xs">{wallet.address}</TableCell>
+                  <TableCell>
+                    <RoleSelect
+                      value={walletRole(wallet)}
+                      onChange={(role) => handleRoleChange(wallet.address, role)}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleDelete(wallet.address)}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default WalletConfigSection;
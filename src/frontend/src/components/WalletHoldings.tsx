@@ -1,40 +1,74 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { AlertCircle, Wallet, Image, RefreshCw } from 'lucide-react';
+import TransactionHistory from '@/components/TransactionHistory';
+import LedgerObjects from '@/components/LedgerObjects';
+import AccountSettings from '@/components/AccountSettings';
+import TrustLineBadges from '@/components/TrustLineBadges';
+import TokenValue from '@/components/TokenValue';
+import PortfolioValue from '@/components/PortfolioValue';
+import XRPBalanceBreakdown from '@/components/XRPBalanceBreakdown';
+import NFTGallery from '@/components/NFTGallery';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
-import { fetchAccountInfo, fetchAccountLines, fetchAccountNFTs, validateXRPLAddress, type AccountInfo, type TrustLine, type NFToken } from '@/lib/xrpl';
+import {
+  fetchAccountInfo,
+  fetchAllAccountLines,
+  fetchAllAccountNFTs,
+  fetchAllAccountObjects,
+  fetchReserves,
+  validateXRPLAddress,
+  type AccountInfo,
+  type TrustLine,
+  type NFToken,
+  type ReserveSettings
+} from '@/lib/xrpl';
+import { useAccountUpdates } from '@/hooks/useLedgerStream';
+import { useTokenQuotes } from '@/hooks/useTokenQuotes';
+import { getWalletLabel } from '@/lib/wallets';
+import type { ClassicAddress } from '@/lib/addressCodec';
+import { IOUValue, formatIOU, formatXRP, parseDrops } from '@/lib/amount';
+import { heldTokens, tokenKey, valuePortfolio } from '@/lib/pricing';
+import type { LedgerObject } from '@/lib/ledgerObjects';
+import { computeXRPBreakdown, ownerReserveComposition, trustLineReserveRelease, trustLineReserves } from '@/lib/reserves';
+import { Currency } from '@/lib/currency';
+import { isAbortError } from '@/lib/scheduler';
+import { describeXRPLError, hasErrorCode } from '@/lib/xrplErrors';
 
 interface WalletHoldingsProps {
-  walletAddress: string;
+  walletAddress: ClassicAddress;
 }
 
-// Helper function to get wallet label
-function getWalletLabel(address: string): string {
-  const walletMap: Record<string, string> = {
-    'rdRvw4pKmEtSnz3cjXBL6HLJJmejtkoQ4': 'GreedyJEW Issuer',
-    'rw3DPxgusRrvdsbXSjHdXD14ogkNidTTRx': 'Project Dev Wallet'
-  };
-  
-  return walletMap[address] || address;
+interface LoadOptions {
+  // Refresh in place without replacing the view with skeletons
+  silent?: boolean;
 }
 
 function WalletHoldings({ walletAddress }: WalletHoldingsProps) {
   const [accountInfo, setAccountInfo] = useState<AccountInfo | null>(null);
   const [trustLines, setTrustLines] = useState<TrustLine[]>([]);
   const [nfts, setNfts] = useState<NFToken[]>([]);
+  const [objects, setObjects] = useState<LedgerObject[]>([]);
+  const [reserves, setReserves] = useState<ReserveSettings | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [notActivated, setNotActivated] = useState(false);
   const [activeTab, setActiveTab] = useState('overview');
+  const loadControllerRef = useRef<AbortController | null>(null);
+
+  const loadWalletData = async ({ silent = false }: LoadOptions = {}) => {
+    // A newer load supersedes any that is still running
+    loadControllerRef.current?.abort();
+    const controller = new AbortController();
+    loadControllerRef.current = controller;
 
-  const loadWalletData = async () => {
     console.log(`[WalletHoldings] Loading data for wallet: ${walletAddress}`);
     
     if (!validateXRPLAddress(walletAddress)) {
-      const errorMsg = `Invalid XRPL address: "${walletAddress}". Valid addresses start with 'r' and are 25-35 characters long.`;
+      const errorMsg = `Invalid XRPL address: "${walletAddress}". The address is malformed or its checksum does not match.`;
       console.error(`[WalletHoldings]`, errorMsg);
       setError(errorMsg);
       setLoading(false);
@@ -42,29 +76,46 @@ function WalletHoldings({ walletAddress }: WalletHoldingsProps) {
     }
     
     try {
-      setLoading(true);
-      setError(null);
+      if (!silent) {
+        setLoading(true);
+        setError(null);
+        setNotActivated(false);
+      }
       
-      console.log(`[WalletHoldings] Fetching account info...`);
-      const info = await fetchAccountInfo(walletAddress);
-      setAccountInfo(info);
-      console.log(`[WalletHoldings] Account info loaded`);
+      const options = { signal: controller.signal, priority: silent ? 'low' : 'high' } as const;
       
-      console.log(`[WalletHoldings] Fetching trust lines...`);
-      const lines = await fetchAccountLines(walletAddress);
-      setTrustLines(lines);
-      console.log(`[WalletHoldings] Trust lines loaded: ${lines.length}`);
+      console.log(`[WalletHoldings] Fetching account info, trust lines, NFTs, objects and reserves...`);
+      const [info, lines, nftList, objectList, reserveSettings] = await Promise.all([
+        fetchAccountInfo(walletAddress, options),
+        fetchAllAccountLines(walletAddress, options),
+        fetchAllAccountNFTs(walletAddress, options),
+        // Objects tell which trust lines, offers and pages the owner reserve pays for
+        fetchAllAccountObjects(walletAddress, options),
+        fetchReserves(options)
+      ]);
       
-      console.log(`[WalletHoldings] Fetching NFTs...`);
-      const nftList = await fetchAccountNFTs(walletAddress);
+      setAccountInfo(info);
+      setTrustLines(lines);
       setNfts(nftList);
-      console.log(`[WalletHoldings] NFTs loaded: ${nftList.length}`);
+      setObjects(objectList);
+      setReserves(reserveSettings);
+      console.log(`[WalletHoldings] Loaded account info, ${lines.length} trust lines, ${nftList.length} NFTs and ${objectList.length} objects`);
     } catch (err) {
-      const errorMsg = err instanceof Error ? err.message : 'Failed to load wallet data';
+      if (isAbortError(err)) {
+        console.log('[WalletHoldings] Load cancelled');
+        return;
+      }
+      const errorMsg = describeXRPLError(err, 'Failed to load wallet data');
       console.error('[WalletHoldings] Error loading wallet data:', err);
-      setError(errorMsg);
+      // A failed background refresh keeps showing the last good data
+      if (!silent) {
+        setError(errorMsg);
+        setNotActivated(hasErrorCode(err, 'actNotFound'));
+      }
     } finally {
-      setLoading(false);
+      if (loadControllerRef.current === controller) {
+        setLoading(false);
+      }
     }
   };
 
@@ -72,6 +123,17 @@ function WalletHoldings({ walletAddress }: WalletHoldingsProps) {
     loadWalletData();
   }, [walletAddress]);
 
+  // Stop any load still running when the view unmounts
+  useEffect(() => () => loadControllerRef.current?.abort(), []);
+
+  useAccountUpdates([walletAddress], () => {
+    console.log(`[WalletHoldings] Ledger update for ${walletAddress} - refreshing holdings`);
+    loadWalletData({ silent: true });
+  });
+
+  // Only positive balances have value; the issuer side of every holder's line doesn't
+  const { quotes, loading: pricing } = useTokenQuotes(heldTokens(trustLines));
+
   const walletLabel = getWalletLabel(walletAddress);
 
   if (loading) {
@@ -102,7 +164,7 @@ function WalletHoldings({ walletAddress }: WalletHoldingsProps) {
         <CardContent>
           <Alert variant="destructive">
             <AlertCircle className="h-4 w-4" />
-            <AlertTitle>Error Loading Wallet</AlertTitle>
+            <AlertTitle>{notActivated ? 'Account Not Activated' : 'Error Loading Wallet'}</AlertTitle>
             <AlertDescription className="space-y-3 mt-2">
               <p>{error}</p>
               <div className="text-sm bg-destructive/10 p-3 rounded space-y-1">
@@ -110,17 +172,24 @@ function WalletHoldings({ walletAddress }: WalletHoldingsProps) {
                 <p className="font-mono text-xs">{walletAddress}</p>
               </div>
               
-              <div className="mt-4 p-3 bg-destructive/10 rounded-md border border-destructive/20">
-                <p className="text-sm font-semibold mb-2">Troubleshooting:</p>
-                <ul className="text-sm space-y-1 list-disc list-inside">
-                  <li>Verify the wallet address is a valid XRPL address (starts with 'r', 25-35 characters)</li>
-                  <li>Check that the XRPL server is accessible</li>
-                  <li>Open browser console (F12) for detailed error logs</li>
-                </ul>
-              </div>
+              {notActivated ? (
+                <p className="text-sm">
+                  Send at least the base reserve in XRP to this address to activate it. Until then it
+                  holds no balance, trust lines or NFTs on this network.
+                </p>
+              ) : (
+                <div className="mt-4 p-3 bg-destructive/10 rounded-md border border-destructive/20">
+                  <p className="text-sm font-semibold mb-2">Troubleshooting:</p>
+                  <ul className="text-sm space-y-1 list-disc list-inside">
+                    <li>Verify the wallet address is a valid XRPL address (starts with 'r' and passes the checksum)</li>
+                    <li>Check that the XRPL server is accessible</li>
+                    <li>Open browser console (F12) for detailed error logs</li>
+                  </ul>
+                </div>
+              )}
               
               <Button 
-                onClick={loadWalletData} 
+                onClick={() => loadWalletData()} 
                 variant="outline" 
                 size="sm"
                 className="mt-3"
@@ -135,7 +204,10 @@ function WalletHoldings({ walletAddress }: WalletHoldingsProps) {
     );
   }
 
-  const xrpBalance = accountInfo ? (parseInt(accountInfo.Balance) / 1_000_000).toFixed(2) : '0.00';
+  const breakdown = accountInfo && reserves ? computeXRPBreakdown(accountInfo, reserves) : null;
+  const composition = reserves ? ownerReserveComposition(objects, walletAddress, reserves) : [];
+  const lineReserves = reserves ? trustLineReserves(objects, walletAddress, reserves) : new Map<string, bigint>();
+  const valuation = valuePortfolio(accountInfo ? parseDrops(accountInfo.Balance) : 0n, trustLines, quotes);
 
   return (
     <>
@@ -150,7 +222,7 @@ function WalletHoldings({ walletAddress }: WalletHoldingsProps) {
       </CardHeader>
       <CardContent>
         <Tabs value={activeTab} onValueChange={setActiveTab}>
-          <TabsList className="grid w-full grid-cols-2 mb-4">
+          <TabsList className="grid w-full grid-cols-5 mb-4">
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="nfts">
               NFTs
@@ -160,13 +232,22 @@ function WalletHoldings({ walletAddress }: WalletHoldingsProps) {
                 </Badge>
               )}
             </TabsTrigger>
+            <TabsTrigger value="objects">Ledger Objects</TabsTrigger>
+            <TabsTrigger value="settings">Settings</TabsTrigger>
+            <TabsTrigger value="transactions">Transactions</TabsTrigger>
           </TabsList>
 
           <TabsContent value="overview" className="space-y-4">
-            <div className="p-4 rounded-lg bg-gradient-to-br from-chart-1/10 to-chart-2/10 border border-chart-1/20">
-              <p className="text-sm text-muted-foreground mb-1">XRP Balance</p>
-              <p className="text-3xl font-bold">{xrpBalance} XRP</p>
-            </div>
+            {breakdown ? (
+              <XRPBalanceBreakdown breakdown={breakdown} composition={composition} />
+            ) : (
+              <div className="p-4 rounded-lg bg-gradient-to-br from-chart-1/10 to-chart-2/10 border border-chart-1/20">
+                <p className="text-sm text-muted-foreground mb-1">XRP Balance</p>
+                <p className="text-3xl font-bold">{formatXRP(accountInfo ? accountInfo.Balance : 0n)} XRP</p>
+              </div>
+            )}
+
+            <PortfolioValue valuation={valuation} loading={pricing} />
 
             <div>
               <h3 className="font-semibold text-sm text-muted-foreground uppercase tracking-wide mb-3">
@@ -182,27 +263,44 @@ function WalletHoldings({ walletAddress }: WalletHoldingsProps) {
                 </Alert>
               ) : (
                 <div className="space-y-2">
-                  {trustLines.map((line, index) => (
-                    <div
-                      key={`${line.currency}-${line.account}-${index}`}
-                      className="p-3 rounded-lg border border-border/50 hover:border-chart-1/50 hover:bg-accent/30 transition-all"
-                    >
-                      <div className="flex items-center justify-between">
-                        <div className="flex-1">
-                          <p className="font-semibold">{line.currency}</p>
-                          <p className="text-xs text-muted-foreground font-mono truncate">
-                            {line.account}
-                          </p>
-                        </div>
-                        <div className="text-right">
-                          <p className="font-bold">{parseFloat(line.balance).toFixed(2)}</p>
-                          <p className="text-xs text-muted-foreground">
-                            Limit: {parseFloat(line.limit).toFixed(0)}
-                          </p>
+                  {trustLines.map((line, index) => {
+                    const released = trustLineReserveRelease(lineReserves, line.currency, line.account);
+                    const balance = IOUValue.parse(line.balance);
+                    return (
+                      <div
+                        key={`${line.currency}-${line.account}-${index}`}
+                        className="p-3 rounded-lg border border-border/50 hover:border-chart-1/50 hover:bg-accent/30 transition-all"
+                      >
+                        <div className="flex items-center justify-between">
+                          <div className="flex-1">
+                            <p className="font-semibold">{Currency.fromLedger(line.currency).display()}</p>
+                            <p className="text-xs text-muted-foreground font-mono truncate">
+                              {line.account}
+                            </p>
+                            <TrustLineBadges line={line} />
+                          </div>
+                          <div className="text-right">
+                            <p className="font-bold">{formatIOU(line.balance)}</p>
+                            <p className="text-xs text-muted-foreground">
+                              Limit: {formatIOU(line.limit, { minimumFractionDigits: 0, maximumFractionDigits: 0 })}
+                            </p>
+                            {!balance.isZero() && !balance.isNegative() && (
+                              <TokenValue
+                                balance={line.balance}
+                                quote={quotes.get(tokenKey({ currency: line.currency, issuer: line.account }))}
+                                loading={pricing}
+                              />
+                            )}
+                            {released !== null && (
+                              <p className="text-xs text-muted-foreground">
+                                {released > 0n ? `Removing frees ${formatXRP(released)} XRP` : 'No reserve'}
+                              </p>
+                            )}
+                          </div>
                         </div>
                       </div>
-                    </div>
-                  ))}
+                    );
+                  })}
                 </div>
               )}
             </div>
@@ -218,30 +316,21 @@ function WalletHoldings({ walletAddress }: WalletHoldingsProps) {
                 </AlertDescription>
               </Alert>
             ) : (
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                {nfts.map((nft) => (
-                  <div
-                    key={nft.NFTokenID}
-                    className="p-4 rounded-lg border border-border/50 hover:border-chart-2/50 hover:bg-accent/30 transition-all"
-                  >
-                    <div className="flex items-center gap-2 mb-2">
-                      <Image className="h-4 w-4 text-chart-2" />
-                      <p className="font-semibold text-sm">NFT #{nft.nft_serial}</p>
-                    </div>
-                    <p className="text-xs text-muted-foreground font-mono break-all mb-2">
-                      {nft.NFTokenID}
-                    </p>
-                    <div className="flex items-center justify-between text-xs">
-                      <span className="text-muted-foreground">Taxon: {nft.NFTokenTaxon}</span>
-                      <Badge variant="outline" className="text-xs">
-                        Flags: {nft.Flags}
-                      </Badge>
-                    </div>
-                  </div>
-                ))}
-              </div>
+              <NFTGallery nfts={nfts} />
             )}
           </TabsContent>
+
+          <TabsContent value="objects">
+            <LedgerObjects walletAddress={walletAddress} ownerCount={accountInfo?.OwnerCount ?? null} />
+          </TabsContent>
+
+          <TabsContent value="settings">
+            {accountInfo && <AccountSettings accountInfo={accountInfo} />}
+          </TabsContent>
+
+          <TabsContent value="transactions">
+            <TransactionHistory walletAddress={walletAddress} />
+          </TabsContent>
         </Tabs>
       </CardContent>
     </>
@@ -0,0 +1,58 @@
+import { formatXRP } from '@/lib/amount';
+import type { ReserveComponent, XRPBreakdown } from '@/lib/reserves';
+
+interface XRPBalanceBreakdownProps {
+  breakdown: XRPBreakdown;
+  composition: ReserveComponent[];
+}
+
+function XRPBalanceBreakdown({ breakdown, composition }: XRPBalanceBreakdownProps) {
+  const accountedUnits = composition.reduce((sum, component) => sum + component.units, 0);
+
+  return (
+    <div className="p-4 rounded-lg bg-gradient-to-br from-chart-1/10 to-chart-2/10 border border-chart-1/20 space-y-4">
+      <div className="grid grid-cols-3 gap-3">
+        <div>
+          <p className="text-sm text-muted-foreground mb-1">Total XRP</p>
+          <p className="text-2xl font-bold">{formatXRP(breakdown.totalDrops)}</p>
+        </div>
+        <div>
+          <p className="text-sm text-muted-foreground mb-1">Reserved</p>
+          <p className="text-2xl font-bold text-chart-4">{formatXRP(breakdown.reservedDrops)}</p>
+        </div>
+        <div>
+          <p className="text-sm text-muted-foreground mb-1">Spendable</p>
+          <p className="text-2xl font-bold text-chart-3">{formatXRP(breakdown.spendableDrops)}</p>
+        </div>
+      </div>
+
+      <div className="space-y-1 text-sm">
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Base reserve</span>
+          <span className="font-mono">{formatXRP(breakdown.baseReserveDrops)} XRP</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">
+            Owner reserve ({breakdown.ownerCount} object{breakdown.ownerCount === 1 ? '' : 's'})
+          </span>
+          <span className="font-mono">{formatXRP(breakdown.ownerReserveDrops)} XRP</span>
+        </div>
+        {composition.map((component) => (
+          <div key={component.type} className="flex justify-between pl-4 text-xs">
+            <span className="text-muted-foreground">
+              {component.label} × {component.units}
+            </span>
+            <span className="font-mono">{formatXRP(component.drops)} XRP</span>
+          </div>
+        ))}
+        {accountedUnits !== breakdown.ownerCount && (
+          <p className="pl-4 text-xs text-muted-foreground">
+            {accountedUnits} of {breakdown.ownerCount} owner reserves could be matched to ledger objects.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default XRPBalanceBreakdown;
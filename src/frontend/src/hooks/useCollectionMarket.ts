@@ -0,0 +1,76 @@
+import { useEffect, useRef, useState } from 'react';
+import { isClioUnsupportedError, iterateNFTsByIssuer } from '@/lib/xrpl';
+import { describeXRPLError } from '@/lib/xrplErrors';
+import { summarizeNFTMarket, type NFTMarket } from '@/lib/nftOffers';
+import { isAbortError } from '@/lib/scheduler';
+import { toClassicAddress } from '@/lib/addressCodec';
+import { loadOfferBooks } from '@/hooks/useNFTOffers';
+
+export type CollectionMarketState =
+  | { status: 'idle' }
+  // tokens is null while the collection is still being listed
+  | { status: 'loading'; tokens: number | null; scanned: number }
+  // Listing a collection needs Clio's nfts_by_issuer
+  | { status: 'unsupported' }
+  | { status: 'error'; message: string }
+  // failed counts tokens whose offers couldn't be loaded
+  | { status: 'done'; market: NFTMarket; tokens: number; failed: number };
+
+// Floor and best bid across every live token in a collection (issuer + taxon),
+// not just the ones a wallet holds. There's no per-collection offer query, so
+// this lists the collection from Clio and walks each token's offers, which can
+// take thousands of requests; it only runs when asked to.
+export function useCollectionMarket(issuer: string, taxon: number) {
+  const [state, setState] = useState<CollectionMarketState>({ status: 'idle' });
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const load = async () => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setState({ status: 'loading', tokens: null, scanned: 0 });
+
+    try {
+      const nftIds: string[] = [];
+      const pages = iterateNFTsByIssuer(toClassicAddress(issuer), { taxon, signal: controller.signal, priority: 'low' });
+      for await (const page of pages) {
+        nftIds.push(...page.filter(nft => !nft.is_burned).map(nft => nft.nft_id));
+      }
+      console.log(`[CollectionMarket] ${nftIds.length} live NFTs in ${issuer} taxon ${taxon}`);
+      setState({ status: 'loading', tokens: nftIds.length, scanned: 0 });
+
+      const books = await loadOfferBooks(nftIds, controller.signal, scanned => {
+        setState({ status: 'loading', tokens: nftIds.length, scanned });
+      });
+      setState({
+        status: 'done',
+        market: summarizeNFTMarket([...books.values()]),
+        tokens: nftIds.length,
+        failed: nftIds.length - books.size
+      });
+    } catch (err) {
+      if (isAbortError(err)) return;
+      if (isClioUnsupportedError(err)) {
+        console.log('[CollectionMarket] Connected server is not a Clio server');
+        setState({ status: 'unsupported' });
+        return;
+      }
+      console.error('[CollectionMarket] Error loading collection market:', err);
+      setState({ status: 'error', message: describeXRPLError(err, 'Failed to load collection offers') });
+    }
+  };
+
+  const cancel = () => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setState({ status: 'idle' });
+  };
+
+  // A different collection starts over
+  useEffect(() => {
+    cancel();
+    return () => controllerRef.current?.abort();
+  }, [issuer, taxon]);
+
+  return { state, load, cancel };
+}
@@ -0,0 +1,86 @@
+import { useEffect, useRef, useState } from 'react';
+import { getXRPLSocket, type SocketState } from '@/lib/xrplSocket';
+import { invalidateAccount } from '@/lib/requestCache';
+import { rippleTimeToDate } from '@/lib/transactions';
+
+// Transactions from one ledger arrive as a burst; wait for it to settle so a
+// view reloads once per ledger rather than once per transaction
+const UPDATE_DEBOUNCE_MS = 750;
+
+export interface LedgerStreamState {
+  connection: SocketState;
+  ledgerIndex: number | null;
+  ledgerTime: Date | null;
+}
+
+export function useLedgerStream(): LedgerStreamState {
+  const [stream, setStream] = useState<LedgerStreamState>(() => ({
+    connection: getXRPLSocket().getState(),
+    ledgerIndex: null,
+    ledgerTime: null
+  }));
+
+  useEffect(() => {
+    const socket = getXRPLSocket();
+
+    const offState = socket.onStateChange(connection => {
+      setStream(prev => ({ ...prev, connection }));
+    });
+
+    const offLedger = socket.subscribeLedger(event => {
+      setStream(prev => ({
+        ...prev,
+        ledgerIndex: event.ledger_index,
+        ledgerTime: rippleTimeToDate(event.ledger_time)
+      }));
+    });
+
+    return () => {
+      offLedger();
+      offState();
+    };
+  }, []);
+
+  return stream;
+}
+
+// Calls onUpdate with the accounts touched by each validated ledger, so views
+// can refresh balances as soon as the ledger closes
+export function useAccountUpdates(accounts: string[], onUpdate: (accounts: string[]) => void): void {
+  const onUpdateRef = useRef(onUpdate);
+  onUpdateRef.current = onUpdate;
+  const accountsKey = [...accounts].sort().join(',');
+
+  useEffect(() => {
+    if (accounts.length === 0) {
+      return;
+    }
+
+    const pending = new Set<string>();
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const unsubscribe = getXRPLSocket().subscribeAccounts(accounts, event => {
+      if (!event.validated) return;
+
+      console.log(`[LedgerStream] ${event.transaction.TransactionType} in ledger ${event.ledger_index} touched:`, event.affectedAccounts);
+      event.affectedAccounts.forEach(account => {
+        pending.add(account);
+        // Cached responses for this account no longer reflect the ledger
+        invalidateAccount(account);
+      });
+
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        timer = null;
+        const changed = [...pending];
+        pending.clear();
+        onUpdateRef.current(changed);
+      }, UPDATE_DEBOUNCE_MS);
+    });
+
+    return () => {
+      if (timer) clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [accountsKey]);
+}
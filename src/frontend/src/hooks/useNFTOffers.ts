@@ -0,0 +1,90 @@
+import { useEffect, useState } from 'react';
+import { fetchNFTBuyOffers, fetchNFTSellOffers } from '@/lib/xrpl';
+import type { NFTOfferBook } from '@/lib/nftOffers';
+import { isAbortError } from '@/lib/scheduler';
+
+export interface NFTOffersState {
+  // Keyed by NFTokenID; tokens whose offers failed to load are missing
+  offers: Map<string, NFTOfferBook>;
+  loading: boolean;
+  failed: number;
+  // Tokens past MAX_NFTS_WITH_OFFERS, whose offers were never requested
+  skipped: number;
+}
+
+// Each token costs two requests, so large wallets only get offers for the
+// first tokens, fetched a few at a time
+const MAX_NFTS_WITH_OFFERS = 50;
+const OFFER_BATCH_SIZE = 5;
+
+const EMPTY_STATE: NFTOffersState = { offers: new Map(), loading: false, failed: 0, skipped: 0 };
+
+async function loadOfferBook(nftId: string, signal: AbortSignal): Promise<readonly [string, NFTOfferBook] | null> {
+  const options = { signal, priority: 'low' } as const;
+  try {
+    const [sell, buy] = await Promise.all([
+      fetchNFTSellOffers(nftId, options),
+      fetchNFTBuyOffers(nftId, options)
+    ]);
+    return [nftId, { sell, buy }] as const;
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    // One token's offers failing shouldn't hide everyone else's
+    console.error(`[NFTOffers] Error loading offers for ${nftId}:`, error);
+    return null;
+  }
+}
+
+// Offer books for each token, OFFER_BATCH_SIZE tokens at a time. Tokens whose
+// offers failed to load are missing from the result.
+export async function loadOfferBooks(
+  nftIds: string[],
+  signal: AbortSignal,
+  onProgress?: (done: number) => void
+): Promise<Map<string, NFTOfferBook>> {
+  const offers = new Map<string, NFTOfferBook>();
+  for (let i = 0; i < nftIds.length; i += OFFER_BATCH_SIZE) {
+    const batch = nftIds.slice(i, i + OFFER_BATCH_SIZE);
+    const results = await Promise.all(batch.map(nftId => loadOfferBook(nftId, signal)));
+    for (const result of results) {
+      if (result) offers.set(result[0], result[1]);
+    }
+    onProgress?.(Math.min(i + OFFER_BATCH_SIZE, nftIds.length));
+  }
+  return offers;
+}
+
+// Open buy and sell offers for a set of NFTs. Offers load in the background at
+// low priority, in small batches so a large wallet can't flood the servers.
+export function useNFTOffers(nftIds: string[]): NFTOffersState {
+  const [state, setState] = useState<NFTOffersState>(EMPTY_STATE);
+  const uniqueIds = [...new Set(nftIds)];
+  const idsKey = [...uniqueIds].sort().join(',');
+
+  useEffect(() => {
+    if (uniqueIds.length === 0) {
+      setState(EMPTY_STATE);
+      return;
+    }
+
+    const controller = new AbortController();
+    const requested = uniqueIds.slice(0, MAX_NFTS_WITH_OFFERS);
+    const skipped = uniqueIds.length - requested.length;
+    setState(prev => ({ ...prev, loading: true, skipped }));
+
+    loadOfferBooks(requested, controller.signal)
+      .then(offers => {
+        console.log(`[NFTOffers] Loaded offers for ${offers.size} of ${requested.length} NFTs (${skipped} skipped)`);
+        setState({ offers, loading: false, failed: requested.length - offers.size, skipped });
+      })
+      .catch(error => {
+        if (isAbortError(error)) return;
+        console.error('[NFTOffers] Error loading offers:', error);
+        setState(prev => ({ ...prev, loading: false }));
+      });
+
+    return () => controller.abort();
+  }, [idsKey]);
+
+  return state;
+}
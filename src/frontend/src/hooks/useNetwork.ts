@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { getActiveNetwork, subscribeToNetwork, type NetworkProfile } from '@/lib/networks';
+
+// The network profile all XRPL requests currently go to
+export function useNetwork(): NetworkProfile {
+  return useSyncExternalStore(subscribeToNetwork, getActiveNetwork);
+}
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { getPoolSnapshot, subscribeToPool, type ServerHealth } from '@/lib/serverPool';
+
+// Live view of the JSON-RPC server pool health
+export function useServerPool(): ServerHealth[] {
+  return useSyncExternalStore(subscribeToPool, getPoolSnapshot);
+}
@@ -0,0 +1,40 @@
+import { useEffect, useState } from 'react';
+import { quoteTokens, tokenKey, type TokenQuote, type TokenRef } from '@/lib/pricing';
+import { isAbortError } from '@/lib/scheduler';
+
+export interface TokenQuotesState {
+  quotes: Map<string, TokenQuote>;
+  loading: boolean;
+}
+
+// XRP quotes for a set of tokens, keyed by tokenKey. Quotes load in the
+// background at low priority so they never hold up the balances they value.
+export function useTokenQuotes(tokens: TokenRef[]): TokenQuotesState {
+  const [state, setState] = useState<TokenQuotesState>({ quotes: new Map(), loading: false });
+  const tokensKey = [...new Set(tokens.map(tokenKey))].sort().join(',');
+
+  useEffect(() => {
+    if (tokens.length === 0) {
+      setState({ quotes: new Map(), loading: false });
+      return;
+    }
+
+    const controller = new AbortController();
+    setState(prev => ({ ...prev, loading: true }));
+
+    quoteTokens(tokens, { signal: controller.signal, priority: 'low' })
+      .then(quotes => {
+        console.log(`[Pricing] Quoted ${quotes.size} tokens`);
+        setState({ quotes, loading: false });
+      })
+      .catch(error => {
+        if (isAbortError(error)) return;
+        console.error('[Pricing] Error quoting tokens:', error);
+        setState(prev => ({ ...prev, loading: false }));
+      });
+
+    return () => controller.abort();
+  }, [tokensKey]);
+
+  return state;
+}
@@ -0,0 +1,90 @@
+// Readable account settings from an AccountRoot: the lsf flags, plus the
+// domain, transfer fee, tick size and keys an issuer configures.
+import type { AccountInfo, SignerList } from './xrpl';
+import { decodeHexText } from './hex';
+
+export interface AccountFlag {
+  name: string;
+  label: string;
+  description: string;
+  // Settings that mostly matter for accounts issuing tokens
+  issuer: boolean;
+}
+
+export interface DecodedAccountFlag extends AccountFlag {
+  enabled: boolean;
+}
+
+// AccountRoot ledger flags, in the order they're shown
+const ACCOUNT_FLAGS: (AccountFlag & { mask: number })[] = [
+  { mask: 0x00800000, name: 'lsfDefaultRipple', label: 'Default Ripple', issuer: true, description: 'New trust lines to this account allow rippling, so its tokens can move between holders' },
+  { mask: 0x00040000, name: 'lsfRequireAuth', label: 'Require Auth', issuer: true, description: 'Holders need the issuer to authorize their trust line before receiving tokens' },
+  { mask: 0x00400000, name: 'lsfGlobalFreeze', label: 'Global Freeze', issuer: true, description: 'All tokens issued by this account are frozen' },
+  { mask: 0x00200000, name: 'lsfNoFreeze', label: 'No Freeze', issuer: true, description: 'The issuer has permanently given up the ability to freeze trust lines' },
+  { mask: 0x80000000, name: 'lsfAllowTrustLineClawback', label: 'Trust Line Clawback', issuer: true, description: 'The issuer can claw back tokens from holders' },
+  { mask: 0x00020000, name: 'lsfRequireDestTag', label: 'Require Destination Tag', issuer: false, description: 'Incoming payments must carry a destination tag' },
+  { mask: 0x00080000, name: 'lsfDisallowXRP', label: 'Disallow XRP', issuer: false, description: 'Asks senders not to send XRP (advisory, not enforced)' },
+  { mask: 0x01000000, name: 'lsfDepositAuth', label: 'Deposit Auth', issuer: false, description: 'Only preauthorized accounts can send funds to this account' },
+  { mask: 0x00100000, name: 'lsfDisableMaster', label: 'Master Key Disabled', issuer: false, description: 'Transactions must be signed with the regular key or signer list' },
+  { mask: 0x00010000, name: 'lsfPasswordSpent', label: 'Free Key Reset Used', issuer: false, description: 'The one free regular key change has been used' },
+  { mask: 0x02000000, name: 'lsfAMM', label: 'AMM Account', issuer: false, description: 'This account holds an automated market maker pool' },
+  { mask: 0x04000000, name: 'lsfDisallowIncomingNFTokenOffer', label: 'Block Incoming NFT Offers', issuer: false, description: 'Others cannot create NFT offers directed at this account' },
+  { mask: 0x08000000, name: 'lsfDisallowIncomingCheck', label: 'Block Incoming Checks', issuer: false, description: 'Others cannot create checks to this account' },
+  { mask: 0x10000000, name: 'lsfDisallowIncomingPayChan', label: 'Block Incoming Channels', issuer: false, description: 'Others cannot open payment channels to this account' },
+  { mask: 0x20000000, name: 'lsfDisallowIncomingTrustline', label: 'Block Incoming Trust Lines', issuer: false, description: 'Others cannot open trust lines to this account' }
+];
+
+export function decodeAccountFlags(flags: number): DecodedAccountFlag[] {
+  // Bitwise AND on 0x80000000 gives a negative number, so compare against 0
+  return ACCOUNT_FLAGS.map(({ mask, ...flag }) => ({ ...flag, enabled: (flags & mask) !== 0 }));
+}
+
+// TransferRate is stored as 1e9 plus the fee in billionths
+const TRANSFER_RATE_ONE = 1_000_000_000;
+
+// Fee charged on transfers between holders, as a percentage; 0 if none
+export function transferFeePercent(transferRate: number | undefined): number {
+  if (!transferRate || transferRate <= TRANSFER_RATE_ONE) {
+    return 0;
+  }
+  return (transferRate - TRANSFER_RATE_ONE) / (TRANSFER_RATE_ONE / 100);
+}
+
+export function formatTransferFee(transferRate: number | undefined): string {
+  const percent = transferFeePercent(transferRate);
+  return percent === 0 ? 'None' : `${percent.toLocaleString(undefined, { maximumFractionDigits: 7 })}%`;
+}
+
+// The Domain field as text, falling back to the raw hex if it isn't readable
+export function decodeDomain(domain: string | undefined): string | null {
+  if (!domain) {
+    return null;
+  }
+  return decodeHexText(domain) ?? domain;
+}
+
+export interface AccountSettings {
+  flags: DecodedAccountFlag[];
+  domain: string | null;
+  transferRate: number | null;
+  transferFee: string;
+  // Significant digits used for offer exchange rates; null means the default (15)
+  tickSize: number | null;
+  regularKey: string | null;
+  emailHash: string | null;
+  signerList: SignerList | null;
+}
+
+export function decodeAccountSettings(info: AccountInfo): AccountSettings {
+  return {
+    flags: decodeAccountFlags(info.Flags),
+    domain: decodeDomain(info.Domain),
+    transferRate: info.TransferRate ?? null,
+    transferFee: formatTransferFee(info.TransferRate),
+    tickSize: info.TickSize ?? null,
+    regularKey: info.RegularKey ?? null,
+    emailHash: info.EmailHash ?? null,
+    // An account has at most one signer list
+    signerList: info.signer_lists?.[0] ?? null
+  };
+}
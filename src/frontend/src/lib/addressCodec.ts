@@ -0,0 +1,304 @@
+// XRPL address encoding: base58check classic addresses (r...) and X-addresses
+// (X.../T...) that pack a classic address, optional destination tag and a
+// test-network flag into one string.
+
+// A classic address whose checksum has been verified
+export type ClassicAddress = string & { readonly __brand: 'ClassicAddress' };
+
+export interface DecodedXAddress {
+  classicAddress: ClassicAddress;
+  tag: number | false;
+  isTest: boolean;
+}
+
+// The XRPL base58 dictionary (differs from Bitcoin's ordering)
+const ALPHABET = 'rpshnaf39wBUDNEGHJKLM4PQRST7VWXYZ2bcdeCg65jkm8oFqi1tuvAxyz';
+const ALPHABET_MAP = new Map([...ALPHABET].map((char, index) => [char, index]));
+
+const ACCOUNT_ID_VERSION = 0x00;
+const ACCOUNT_ID_LENGTH = 20;
+const X_ADDRESS_PREFIX_MAIN = [0x05, 0x44];
+const X_ADDRESS_PREFIX_TEST = [0x04, 0x93];
+const MAX_DESTINATION_TAG = 0xffffffff;
+
+// ---------------------------------------------------------------------------
+// SHA-256 (synchronous; WebCrypto's digest is async-only and address checks
+// run inside render and validation paths)
+// ---------------------------------------------------------------------------
+
+const SHA256_K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+]);
+
+function rotr(value: number, bits: number): number {
+  return (value >>> bits) | (value << (32 - bits));
+}
+
+export function sha256(data: Uint8Array): Uint8Array {
+  const bitLength = data.length * 8;
+  const paddedLength = Math.ceil((data.length + 9) / 64) * 64;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(data);
+  padded[data.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(paddedLength - 8, Math.floor(bitLength / 0x100000000));
+  view.setUint32(paddedLength - 4, bitLength >>> 0);
+
+  const hash = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19
+  ]);
+  const w = new Uint32Array(64);
+
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      w[i] = view.getUint32(offset + i * 4);
+    }
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) >>> 0;
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash;
+    for (let i = 0; i < 64; i++) {
+      const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+      const ch = (e & f) ^ (~e & g);
+      const temp1 = (h + s1 + ch + SHA256_K[i] + w[i]) >>> 0;
+      const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const temp2 = (s0 + maj) >>> 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + temp1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (temp1 + temp2) >>> 0;
+    }
+
+    hash[0] = (hash[0] + a) >>> 0;
+    hash[1] = (hash[1] + b) >>> 0;
+    hash[2] = (hash[2] + c) >>> 0;
+    hash[3] = (hash[3] + d) >>> 0;
+    hash[4] = (hash[4] + e) >>> 0;
+    hash[5] = (hash[5] + f) >>> 0;
+    hash[6] = (hash[6] + g) >>> 0;
+    hash[7] = (hash[7] + h) >>> 0;
+  }
+
+  const out = new Uint8Array(32);
+  const outView = new DataView(out.buffer);
+  hash.forEach((word, i) => outView.setUint32(i * 4, word));
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Base58check
+// ---------------------------------------------------------------------------
+
+function base58Encode(bytes: Uint8Array): string {
+  let value = 0n;
+  for (const byte of bytes) {
+    value = (value << 8n) | BigInt(byte);
+  }
+
+  let encoded = '';
+  while (value > 0n) {
+    encoded = ALPHABET[Number(value % 58n)] + encoded;
+    value /= 58n;
+  }
+
+  // Each leading zero byte is represented by the first alphabet character
+  for (const byte of bytes) {
+    if (byte !== 0) break;
+    encoded = ALPHABET[0] + encoded;
+  }
+  return encoded;
+}
+
+function base58Decode(text: string): Uint8Array {
+  let value = 0n;
+  for (const char of text) {
+    const digit = ALPHABET_MAP.get(char);
+    if (digit === undefined) {
+      throw new Error(`Invalid character "${char}" in XRPL address`);
+    }
+    value = value * 58n + BigInt(digit);
+  }
+
+  const bytes: number[] = [];
+  while (value > 0n) {
+    bytes.unshift(Number(value & 0xffn));
+    value >>= 8n;
+  }
+  for (const char of text) {
+    if (char !== ALPHABET[0]) break;
+    bytes.unshift(0);
+  }
+  return new Uint8Array(bytes);
+}
+
+function checksum(payload: Uint8Array): Uint8Array {
+  return sha256(sha256(payload)).slice(0, 4);
+}
+
+function encodeChecked(payload: Uint8Array): string {
+  const bytes = new Uint8Array(payload.length + 4);
+  bytes.set(payload);
+  bytes.set(checksum(payload), payload.length);
+  return base58Encode(bytes);
+}
+
+function decodeChecked(text: string): Uint8Array {
+  const bytes = base58Decode(text);
+  if (bytes.length < 5) {
+    throw new Error('Address is too short');
+  }
+
+  const payload = bytes.slice(0, -4);
+  const expected = checksum(payload);
+  const actual = bytes.slice(-4);
+  if (!expected.every((byte, i) => byte === actual[i])) {
+    throw new Error('Address checksum does not match - check the address for typos');
+  }
+  return payload;
+}
+
+// ---------------------------------------------------------------------------
+// Classic addresses
+// ---------------------------------------------------------------------------
+
+export function decodeAccountID(address: string): Uint8Array {
+  const payload = decodeChecked(address);
+  if (payload.length !== ACCOUNT_ID_LENGTH + 1 || payload[0] !== ACCOUNT_ID_VERSION) {
+    throw new Error('Not a classic XRPL account address');
+  }
+  return payload.slice(1);
+}
+
+export function encodeAccountID(accountId: Uint8Array): ClassicAddress {
+  if (accountId.length !== ACCOUNT_ID_LENGTH) {
+    throw new Error(`Account ID must be ${ACCOUNT_ID_LENGTH} bytes, got ${accountId.length}`);
+  }
+  const payload = new Uint8Array(ACCOUNT_ID_LENGTH + 1);
+  payload[0] = ACCOUNT_ID_VERSION;
+  payload.set(accountId, 1);
+  return encodeChecked(payload) as ClassicAddress;
+}
+
+export function isValidClassicAddress(address: string): address is ClassicAddress {
+  if (!/^r[1-9A-HJ-NP-Za-km-z]{24,34}$/.test(address)) {
+    return false;
+  }
+  try {
+    decodeAccountID(address);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Narrow a string to a ClassicAddress, throwing a descriptive error if it isn't one
+export function toClassicAddress(address: string): ClassicAddress {
+  const trimmed = address.trim();
+  if (!trimmed.startsWith('r')) {
+    throw new Error(`Invalid XRPL address "${trimmed}": classic addresses start with 'r'`);
+  }
+  decodeAccountID(trimmed);
+  return trimmed as ClassicAddress;
+}
+
+// ---------------------------------------------------------------------------
+// X-addresses
+// ---------------------------------------------------------------------------
+
+export function encodeXAddress(classicAddress: ClassicAddress, tag: number | false, isTest: boolean): string {
+  if (tag !== false && (!Number.isInteger(tag) || tag < 0 || tag > MAX_DESTINATION_TAG)) {
+    throw new Error(`Invalid destination tag: ${tag}`);
+  }
+
+  const accountId = decodeAccountID(classicAddress);
+  const payload = new Uint8Array(31);
+  payload.set(isTest ? X_ADDRESS_PREFIX_TEST : X_ADDRESS_PREFIX_MAIN, 0);
+  payload.set(accountId, 2);
+  payload[22] = tag === false ? 0 : 1;
+  // 32-bit tag, little-endian; the following 4 bytes are reserved and stay zero
+  new DataView(payload.buffer).setUint32(23, tag === false ? 0 : tag, true);
+  return encodeChecked(payload);
+}
+
+export function decodeXAddress(xAddress: string): DecodedXAddress {
+  const payload = decodeChecked(xAddress);
+  if (payload.length !== 31) {
+    throw new Error('Not an X-address');
+  }
+
+  const prefix = [payload[0], payload[1]];
+  const isMain = prefix.every((byte, i) => byte === X_ADDRESS_PREFIX_MAIN[i]);
+  const isTest = prefix.every((byte, i) => byte === X_ADDRESS_PREFIX_TEST[i]);
+  if (!isMain && !isTest) {
+    throw new Error('Unknown X-address network prefix');
+  }
+
+  const flag = payload[22];
+  const view = new DataView(payload.buffer, payload.byteOffset);
+  const tagValue = view.getUint32(23, true);
+  const reserved = view.getUint32(27, true);
+
+  if (flag > 1) {
+    throw new Error('Unsupported X-address tag flag');
+  }
+  if (reserved !== 0) {
+    throw new Error('64-bit destination tags are not supported');
+  }
+  if (flag === 0 && tagValue !== 0) {
+    throw new Error('X-address has tag bytes but no tag flag');
+  }
+
+  return {
+    classicAddress: encodeAccountID(payload.slice(2, 22)),
+    tag: flag === 1 ? tagValue : false,
+    isTest
+  };
+}
+
+export function isValidXAddress(xAddress: string): boolean {
+  try {
+    decodeXAddress(xAddress);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Accept either address form and return its classic form plus any tag
+export function parseAddress(input: string): DecodedXAddress & { isXAddress: boolean } {
+  const trimmed = input.trim();
+  if (trimmed.startsWith('X') || trimmed.startsWith('T')) {
+    return { ...decodeXAddress(trimmed), isXAddress: true };
+  }
+  return { classicAddress: toClassicAddress(trimmed), tag: false, isTest: false, isXAddress: false };
+}
+
+// Resolve user input to the account it names. X-addresses are accepted as long
+// as they carry no destination tag and were issued for the right kind of network.
+export function toAccountAddress(input: string, isTestNetwork: boolean): ClassicAddress {
+  const parsed = parseAddress(input);
+  if (parsed.isXAddress) {
+    if (parsed.tag !== false) {
+      throw new Error(`This X-address includes destination tag ${parsed.tag}; enter the account's address without a tag`);
+    }
+    if (parsed.isTest !== isTestNetwork) {
+      throw new Error(`This X-address is for ${parsed.isTest ? 'a test network' : 'mainnet'}, but the dashboard is connected to ${isTestNetwork ? 'a test network' : 'mainnet'}`);
+    }
+  }
+  return parsed.classicAddress;
+}
@@ -0,0 +1,66 @@
+// AMM pool figures from amm_info: reserves oriented to the token being
+// viewed, the implied price, fees and the LP positions of monitored wallets.
+import type { AMMInfo, BookAsset, TrustLine } from './xrpl';
+import { IOUValue, isIssuedAmount, ledgerAmountToNumber, type LedgerAmount } from './amount';
+import { isSameCurrency } from './currency';
+import type { MonitoredWallet } from './wallets';
+
+// amm_info reports fees and vote weights in units of 1/100,000
+const FEE_UNITS_PER_PERCENT = 1000;
+
+export function ammFeePercent(fee: number): number {
+  return fee / FEE_UNITS_PER_PERCENT;
+}
+
+function amountMatchesAsset(amount: LedgerAmount, asset: BookAsset): boolean {
+  if (!isIssuedAmount(amount)) {
+    return !asset.issuer;
+  }
+  return amount.issuer === asset.issuer && isSameCurrency(amount.currency, asset.currency);
+}
+
+export interface OrientedPool {
+  baseAmount: LedgerAmount;
+  counterAmount: LedgerAmount;
+  // Counter asset per unit of base asset implied by the reserves; display-only
+  price: number | null;
+}
+
+// amm_info returns the pool's assets in its own order; put the base first
+export function orientPool(info: AMMInfo, base: BookAsset): OrientedPool {
+  const [baseAmount, counterAmount] = amountMatchesAsset(info.amount, base)
+    ? [info.amount, info.amount2]
+    : [info.amount2, info.amount];
+  const baseValue = ledgerAmountToNumber(baseAmount);
+  return {
+    baseAmount,
+    counterAmount,
+    price: baseValue > 0 ? ledgerAmountToNumber(counterAmount) / baseValue : null
+  };
+}
+
+export interface LPPosition {
+  wallet: MonitoredWallet;
+  balance: IOUValue;
+  // Fraction of all LP tokens, 0-1; display-only
+  share: number;
+}
+
+// Monitored wallets holding this pool's LP token, largest first. LP tokens
+// are issued by the pool's own account.
+export function findLPPositions(
+  info: AMMInfo,
+  walletLines: { wallet: MonitoredWallet; lines: TrustLine[] }[]
+): LPPosition[] {
+  const supply = IOUValue.parse(info.lp_token.value).toNumber();
+  return walletLines
+    .flatMap(({ wallet, lines }) => {
+      const line = lines.find(l => l.account === info.account && isSameCurrency(l.currency, info.lp_token.currency));
+      const balance = line ? IOUValue.parse(line.balance) : IOUValue.ZERO;
+      if (balance.isZero() || balance.isNegative()) {
+        return [];
+      }
+      return [{ wallet, balance, share: supply > 0 ? balance.toNumber() / supply : 0 }];
+    })
+    .sort((a, b) => b.share - a.share);
+}
@@ -0,0 +1,306 @@
+// Exact XRPL amount handling. XRP is an integer number of drops (BigInt);
+// issued-currency (IOU) values follow the ledger's decimal representation of
+// a 16-digit mantissa and an exponent, so no precision is lost to floats.
+import { Currency } from './currency';
+
+// Normalised mantissas satisfy MIN_MANTISSA <= |mantissa| <= MAX_MANTISSA
+const MIN_MANTISSA = 1_000_000_000_000_000n;
+const MAX_MANTISSA = 9_999_999_999_999_999n;
+const MIN_EXPONENT = -96;
+const MAX_EXPONENT = 80;
+
+export const DROPS_PER_XRP = 1_000_000n;
+
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/;
+
+function absBigInt(value: bigint): bigint {
+  return value < 0n ? -value : value;
+}
+
+// Divide by a power of ten, rounding to nearest with ties to even
+function divideRounded(value: bigint, divisor: bigint): bigint {
+  const quotient = value / divisor;
+  const remainder = absBigInt(value % divisor);
+  const twice = remainder * 2n;
+  if (twice > divisor || (twice === divisor && quotient % 2n !== 0n)) {
+    return quotient + (value < 0n ? -1n : 1n);
+  }
+  return quotient;
+}
+
+export class IOUValue {
+  static readonly ZERO = new IOUValue(0n, 0);
+
+  private constructor(
+    readonly mantissa: bigint,
+    readonly exponent: number
+  ) {}
+
+  // Bring a mantissa/exponent pair into the ledger's canonical range
+  private static normalize(mantissa: bigint, exponent: number): IOUValue {
+    if (mantissa === 0n) {
+      return IOUValue.ZERO;
+    }
+
+    let m = mantissa;
+    let e = exponent;
+
+    while (absBigInt(m) < MIN_MANTISSA) {
+      m *= 10n;
+      e--;
+    }
+    if (absBigInt(m) > MAX_MANTISSA) {
+      // Strip all excess digits in one rounding step so we don't double-round
+      let digits = 0;
+      let scaled = absBigInt(m);
+      while (scaled > MAX_MANTISSA) {
+        scaled /= 10n;
+        digits++;
+      }
+      m = divideRounded(m, 10n ** BigInt(digits));
+      e += digits;
+      // Rounding up can carry into a 17th digit (9999...9.5 -> 10000...0)
+      if (absBigInt(m) > MAX_MANTISSA) {
+        m /= 10n;
+        e++;
+      }
+    }
+
+    // Values too small for the ledger to represent are zero
+    if (e < MIN_EXPONENT) {
+      return IOUValue.ZERO;
+    }
+    if (e > MAX_EXPONENT) {
+      throw new RangeError(`IOU amount overflow: exponent ${e} exceeds ${MAX_EXPONENT}`);
+    }
+    return new IOUValue(m, e);
+  }
+
+  static parse(value: string): IOUValue {
+    const match = DECIMAL_PATTERN.exec(value.trim());
+    if (!match || (match[2] === '' && (match[3] ?? '') === '')) {
+      throw new Error(`Invalid IOU amount: "${value}"`);
+    }
+
+    const [, sign, integerPart, fractionPart = '', exponentPart = '0'] = match;
+    const digits = `${integerPart}${fractionPart}`.replace(/^0+/, '') || '0';
+    const mantissa = BigInt(digits) * (sign === '-' ? -1n : 1n);
+    return IOUValue.normalize(mantissa, parseInt(exponentPart, 10) - fractionPart.length);
+  }
+
+  isZero(): boolean {
+    return this.mantissa === 0n;
+  }
+
+  isNegative(): boolean {
+    return this.mantissa < 0n;
+  }
+
+  negate(): IOUValue {
+    return new IOUValue(-this.mantissa, this.exponent);
+  }
+
+  abs(): IOUValue {
+    return this.isNegative() ? this.negate() : this;
+  }
+
+  add(other: IOUValue): IOUValue {
+    if (this.isZero()) return other;
+    if (other.isZero()) return this;
+
+    // Align to the smaller exponent; the sum is exact before normalisation
+    const exponent = Math.min(this.exponent, other.exponent);
+    const a = this.mantissa * 10n ** BigInt(this.exponent - exponent);
+    const b = other.mantissa * 10n ** BigInt(other.exponent - exponent);
+    return IOUValue.normalize(a + b, exponent);
+  }
+
+  subtract(other: IOUValue): IOUValue {
+    return this.add(other.negate());
+  }
+
+  compare(other: IOUValue): -1 | 0 | 1 {
+    const difference = this.subtract(other);
+    if (difference.isZero()) return 0;
+    return difference.isNegative() ? -1 : 1;
+  }
+
+  // Approximate value for ratios and charts only; never sum these
+  toNumber(): number {
+    return Number(this.toString());
+  }
+
+  // Plain decimal notation with no exponent and no trailing zeros
+  toString(): string {
+    if (this.isZero()) return '0';
+
+    const negative = this.isNegative();
+    const digits = absBigInt(this.mantissa).toString();
+    let text: string;
+
+    if (this.exponent >= 0) {
+      text = digits + '0'.repeat(this.exponent);
+    } else {
+      const pointIndex = digits.length + this.exponent;
+      text = pointIndex > 0
+        ? `${digits.slice(0, pointIndex)}.${digits.slice(pointIndex)}`
+        : `0.${'0'.repeat(-pointIndex)}${digits}`;
+      text = text.replace(/\.?0+$/, '');
+    }
+
+    return negative ? `-${text}` : text;
+  }
+
+  static sum(values: IOUValue[]): IOUValue {
+    return values.reduce((total, value) => total.add(value), IOUValue.ZERO);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// XRP drops
+// ---------------------------------------------------------------------------
+
+export function parseDrops(value: string): bigint {
+  if (!/^-?\d+$/.test(value.trim())) {
+    throw new Error(`Invalid drops amount: "${value}"`);
+  }
+  return BigInt(value.trim());
+}
+
+// Exact XRP value of a drops amount as a decimal string
+export function dropsToXrp(drops: bigint): string {
+  const negative = drops < 0n;
+  const abs = absBigInt(drops);
+  const whole = abs / DROPS_PER_XRP;
+  const fraction = (abs % DROPS_PER_XRP).toString().padStart(6, '0').replace(/0+$/, '');
+  const text = fraction ? `${whole}.${fraction}` : whole.toString();
+  return negative ? `-${text}` : text;
+}
+
+export function xrpToDrops(xrp: string): bigint {
+  const value = IOUValue.parse(xrp);
+  const scaled = value.exponent + 6;
+  if (scaled < 0) {
+    const divisor = 10n ** BigInt(-scaled);
+    if (value.mantissa % divisor !== 0n) {
+      throw new Error(`XRP amount "${xrp}" has more than 6 decimal places`);
+    }
+    return value.mantissa / divisor;
+  }
+  return value.mantissa * 10n ** BigInt(scaled);
+}
+
+// ---------------------------------------------------------------------------
+// Locale-aware formatting
+// ---------------------------------------------------------------------------
+
+export interface AmountFormatOptions {
+  minimumFractionDigits?: number;
+  maximumFractionDigits?: number;
+  locale?: string;
+}
+
+const DEFAULT_FORMAT: Required<Omit<AmountFormatOptions, 'locale'>> = {
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 6
+};
+
+const separatorCache = new Map<string, { group: string; decimal: string }>();
+
+function getSeparators(locale?: string): { group: string; decimal: string } {
+  const key = locale ?? '';
+  let separators = separatorCache.get(key);
+  if (!separators) {
+    const parts = new Intl.NumberFormat(locale).formatToParts(11111.1);
+    separators = {
+      group: parts.find(part => part.type === 'group')?.value ?? ',',
+      decimal: parts.find(part => part.type === 'decimal')?.value ?? '.'
+    };
+    separatorCache.set(key, separators);
+  }
+  return separators;
+}
+
+// Round a plain decimal string to a number of fraction digits (half away from zero)
+function roundDecimalString(decimal: string, fractionDigits: number): { negative: boolean; integer: string; fraction: string } {
+  const negative = decimal.startsWith('-');
+  const [integerPart, fractionPart = ''] = (negative ? decimal.slice(1) : decimal).split('.');
+
+  if (fractionPart.length <= fractionDigits) {
+    return { negative, integer: integerPart, fraction: fractionPart };
+  }
+
+  const kept = BigInt(integerPart + fractionPart.slice(0, fractionDigits));
+  const roundUp = fractionPart.charCodeAt(fractionDigits) >= '5'.charCodeAt(0);
+  const rounded = (roundUp ? kept + 1n : kept).toString().padStart(fractionDigits + 1, '0');
+
+  return {
+    negative,
+    integer: rounded.slice(0, rounded.length - fractionDigits) || '0',
+    fraction: fractionDigits > 0 ? rounded.slice(-fractionDigits) : ''
+  };
+}
+
+export function formatDecimal(decimal: string, options: AmountFormatOptions = {}): string {
+  const { minimumFractionDigits, maximumFractionDigits } = { ...DEFAULT_FORMAT, ...options };
+  const { group, decimal: point } = getSeparators(options.locale);
+
+  const rounded = roundDecimalString(decimal, maximumFractionDigits);
+  let fraction = rounded.fraction.replace(/0+$/, '');
+  if (fraction.length < minimumFractionDigits) {
+    fraction = fraction.padEnd(minimumFractionDigits, '0');
+  }
+
+  const integer = rounded.integer.replace(/\B(?=(\d{3})+(?!\d))/g, group);
+  const isZero = /^[0]*$/.test(rounded.integer + fraction);
+  const sign = rounded.negative && !isZero ? '-' : '';
+
+  return `${sign}${integer}${fraction ? point + fraction : ''}`;
+}
+
+export function formatIOU(value: IOUValue | string, options: AmountFormatOptions = {}): string {
+  const iou = typeof value === 'string' ? IOUValue.parse(value) : value;
+  return formatDecimal(iou.toString(), options);
+}
+
+export function formatXRP(drops: bigint | string, options: AmountFormatOptions = {}): string {
+  const value = typeof drops === 'string' ? parseDrops(drops) : drops;
+  return formatDecimal(dropsToXrp(value), options);
+}
+
+// ---------------------------------------------------------------------------
+// Ledger amounts
+// ---------------------------------------------------------------------------
+
+export interface IssuedAmount {
+  currency: string;
+  issuer: string;
+  value: string;
+}
+
+// Amount fields on the ledger are drops as a string for XRP, or an object for
+// issued currencies
+export type LedgerAmount = string | IssuedAmount;
+
+export function isIssuedAmount(amount: LedgerAmount): amount is IssuedAmount {
+  return typeof amount === 'object';
+}
+
+// Currency label for an amount: "XRP" or the decoded issued currency code
+export function ledgerAmountCurrency(amount: LedgerAmount): string {
+  return isIssuedAmount(amount) ? Currency.fromLedger(amount.currency).display() : 'XRP';
+}
+
+export function formatLedgerAmount(amount: LedgerAmount, options: AmountFormatOptions = {}): string {
+  return isIssuedAmount(amount)
+    ? `${formatIOU(amount.value, options)} ${ledgerAmountCurrency(amount)}`
+    : `${formatXRP(amount, options)} XRP`;
+}
+
+// Approximate amount in whole units (XRP rather than drops), for prices and
+// charts only
+export function ledgerAmountToNumber(amount: LedgerAmount): number {
+  return isIssuedAmount(amount)
+    ? IOUValue.parse(amount.value).toNumber()
+    : Number(dropsToXrp(parseDrops(amount)));
+}
@@ -0,0 +1,31 @@
+// Assets to pair a token with on the DEX and in AMM pools: XRP plus the
+// other whitelisted tokens.
+import type { BookAsset } from './xrpl';
+import { Currency, isSameCurrency } from './currency';
+import { getWhitelistedTokens } from './tokenConfig';
+
+export const XRP_ASSET: BookAsset = { currency: 'XRP' };
+
+// Stable string form of an asset, for select values and map keys
+export function assetKey(asset: BookAsset): string {
+  return asset.issuer ? `${asset.currency}:${asset.issuer}` : 'XRP';
+}
+
+export function assetLabel(asset: BookAsset): string {
+  return asset.issuer ? Currency.fromLedger(asset.currency).display() : 'XRP';
+}
+
+// XRP first, then every whitelisted token other than the base token
+export function counterAssets(baseCurrency: string, baseIssuer: string): BookAsset[] {
+  const tokens = getWhitelistedTokens().flatMap(config => {
+    try {
+      const asset = { currency: Currency.parse(config.currency).encode(), issuer: config.issuer };
+      const isBase = isSameCurrency(asset.currency, baseCurrency) && asset.issuer === baseIssuer;
+      return isBase ? [] : [asset];
+    } catch {
+      // Configured currencies that no longer parse can't be queried
+      return [];
+    }
+  });
+  return [XRP_ASSET, ...tokens];
+}
@@ -0,0 +1,151 @@
+// XRPL currency codes. On the ledger a code is either a three-character
+// standard code or 160 bits of hex; the hex form covers standard codes in
+// their binary layout, free-form names of up to 20 bytes and AMM LP tokens.
+import { bytesToHex, decodeHexText, hexToBytes, isPrintable } from './hex';
+
+export type CurrencyKind = 'standard' | 'nonstandard' | 'lp' | 'invalid';
+
+const CURRENCY_BYTES = 20;
+const HEX_PATTERN = /^[0-9A-F]{40}$/i;
+// Characters rippled accepts in a three-character code
+const STANDARD_PATTERN = /^[A-Za-z0-9?!@#$%^&*<>(){}[\]|]{3}$/;
+// LP token codes are 0x03 followed by 19 bytes of the pool's hash
+const LP_TOKEN_PREFIX = '03';
+// Standard codes in hex: 12 zero bytes, 3 ASCII bytes, 5 zero bytes
+const STANDARD_HEX_PATTERN = /^0{24}([0-9A-F]{6})0{10}$/i;
+
+const utf8Encoder = new TextEncoder();
+
+// Decode a non-standard code's name, or null if the bytes aren't readable text
+function decodeName(hex: string): string | null {
+  // Names shorter than 20 bytes are padded with trailing zeros
+  return decodeHexText(hex.replace(/(00)+$/, ''));
+}
+
+export class Currency {
+  private constructor(
+    readonly kind: CurrencyKind,
+    // The code exactly as the ledger represents it
+    readonly code: string,
+    // Why the code is invalid, for kind 'invalid'
+    readonly reason: string | null = null
+  ) {}
+
+  // Interpret a currency code returned by the ledger. Never throws; codes the
+  // ledger shouldn't contain come back with kind 'invalid'.
+  static fromLedger(code: string): Currency {
+    if (code.length === 3) {
+      if (code === 'XRP') {
+        return new Currency('invalid', code, '"XRP" is reserved for the native asset');
+      }
+      return STANDARD_PATTERN.test(code)
+        ? new Currency('standard', code)
+        : new Currency('invalid', code, `"${code}" contains characters not allowed in a currency code`);
+    }
+
+    if (!HEX_PATTERN.test(code)) {
+      return new Currency('invalid', code, 'Currency codes must be 3 characters or 40 hex digits');
+    }
+
+    const hex = code.toUpperCase();
+    if (hex.startsWith(LP_TOKEN_PREFIX)) {
+      return new Currency('lp', hex);
+    }
+    if (hex.startsWith('00')) {
+      const standard = STANDARD_HEX_PATTERN.exec(hex);
+      const iso = standard ? String.fromCharCode(...hexToBytes(standard[1])) : null;
+      if (iso === null || iso === '\0\0\0') {
+        return new Currency('invalid', hex, 'A hex code starting with 00 must use the standard code layout');
+      }
+      if (iso === 'XRP') {
+        return new Currency('invalid', hex, '"XRP" is reserved for the native asset');
+      }
+      return STANDARD_PATTERN.test(iso)
+        ? new Currency('standard', iso)
+        : new Currency('invalid', hex, 'Standard code contains characters not allowed in a currency code');
+    }
+    return new Currency('nonstandard', hex);
+  }
+
+  // Interpret a currency as typed by a user: a standard code, a name of up
+  // to 20 bytes, or a 40-digit hex code. Throws if it can't be represented.
+  static parse(input: string): Currency {
+    const trimmed = input.trim();
+    if (!trimmed) {
+      throw new Error('Currency code is required');
+    }
+
+    if (trimmed.length === 3 || HEX_PATTERN.test(trimmed)) {
+      const currency = Currency.fromLedger(trimmed);
+      if (currency.kind === 'invalid') {
+        throw new Error(currency.reason ?? `Invalid currency code "${trimmed}"`);
+      }
+      return currency;
+    }
+
+    if (!isPrintable(trimmed)) {
+      throw new Error('Currency code contains control characters');
+    }
+    const bytes = utf8Encoder.encode(trimmed);
+    if (bytes.length > CURRENCY_BYTES) {
+      throw new Error(`Currency code "${trimmed}" is ${bytes.length} bytes; the limit is ${CURRENCY_BYTES}`);
+    }
+
+    const padded = new Uint8Array(CURRENCY_BYTES);
+    padded.set(bytes);
+    return new Currency('nonstandard', bytesToHex(padded));
+  }
+
+  // Error message for user input, or null if it is a valid currency
+  static validate(input: string): string | null {
+    try {
+      Currency.parse(input);
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  // Representation to send to the ledger
+  encode(): string {
+    return this.code;
+  }
+
+  isHex(): boolean {
+    return this.code.length === 40;
+  }
+
+  // Human-readable label
+  display(): string {
+    switch (this.kind) {
+      case 'standard':
+        return this.code;
+      case 'nonstandard':
+        return decodeName(this.code) ?? this.code;
+      case 'lp':
+        return `LP ${this.code.slice(2, 10)}…`;
+      case 'invalid':
+        return this.code;
+    }
+  }
+
+  equals(other: Currency): boolean {
+    return this.kind !== 'invalid' && other.kind !== 'invalid' && this.code === other.code;
+  }
+}
+
+// True if a ledger currency code and a configured currency name refer to the
+// same currency. Configured names that can't be parsed never match.
+export function currencyMatches(ledgerCode: string, configured: string): boolean {
+  try {
+    return Currency.fromLedger(ledgerCode).equals(Currency.parse(configured));
+  } catch {
+    return false;
+  }
+}
+
+// True if two ledger currency codes refer to the same currency, e.g. a
+// standard code and its 40-digit hex form
+export function isSameCurrency(a: string, b: string): boolean {
+  return Currency.fromLedger(a).equals(Currency.fromLedger(b));
+}
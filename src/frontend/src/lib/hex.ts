@@ -0,0 +1,33 @@
+// Conversions for the hex-encoded blobs the ledger stores: currency codes,
+// domains, URIs and the like.
+
+const utf8Decoder = new TextDecoder('utf-8', { fatal: true });
+
+export function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+export function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('').toUpperCase();
+}
+
+export function isPrintable(text: string): boolean {
+  return text.length > 0 && !/[\u0000-\u001F\u007F]/.test(text);
+}
+
+// Decode hex as UTF-8 text, or null if it isn't valid hex or readable text
+export function decodeHexText(hex: string): string | null {
+  if (hex.length % 2 !== 0 || !/^[0-9A-F]*$/i.test(hex)) {
+    return null;
+  }
+  try {
+    const text = utf8Decoder.decode(hexToBytes(hex));
+    return isPrintable(text) ? text : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,92 @@
+// Holder list and distribution statistics for one token, built from the
+// issuer's side of its trust lines. The issuer sees each holder's balance as
+// a negative amount it owes.
+import type { TrustLine } from './xrpl';
+import { IOUValue } from './amount';
+import { isSameCurrency } from './currency';
+
+export interface TokenHolder {
+  address: string;
+  balance: IOUValue;
+  // The holder's own limit on the line
+  limit: string;
+  // Fraction of the total held, 0-1; display-only
+  share: number;
+}
+
+export interface HolderStats {
+  holderCount: number;
+  zeroBalanceLines: number;
+  totalLines: number;
+  totalHeld: IOUValue;
+  // Fractions of the total held by the largest holders, 0-1
+  top10Share: number;
+  top50Share: number;
+  // 0 when every holder has the same balance, approaching 1 when one holds everything
+  gini: number;
+  // Herfindahl-Hirschman index on the 0-10000 scale
+  hhi: number;
+}
+
+// A holder's line as seen from the holder, before shares are known
+export interface HolderLine {
+  address: string;
+  balance: IOUValue;
+  limit: string;
+}
+
+// Keep the lines for `currency` from a page of the issuer's account_lines,
+// flipped to the holder's point of view
+export function holderLinesFromIssuer(lines: TrustLine[], currency: string): HolderLine[] {
+  return lines
+    .filter(line => isSameCurrency(line.currency, currency))
+    .map(line => ({
+      address: line.account,
+      balance: IOUValue.parse(line.balance).negate(),
+      limit: line.limit_peer
+    }));
+}
+
+function topShare(sorted: TokenHolder[], count: number): number {
+  return sorted.slice(0, count).reduce((sum, holder) => sum + holder.share, 0);
+}
+
+// Gini coefficient over balances sorted in ascending order
+function giniCoefficient(ascending: number[], total: number): number {
+  const n = ascending.length;
+  if (n === 0 || total === 0) {
+    return 0;
+  }
+  const weighted = ascending.reduce((sum, value, i) => sum + (i + 1) * value, 0);
+  return (2 * weighted) / (n * total) - (n + 1) / n;
+}
+
+// Rank holders by balance and compute distribution statistics. Lines with a
+// negative balance (the holder owes the issuer) count toward totalLines only.
+export function analyzeHolders(lines: HolderLine[]): { holders: TokenHolder[]; stats: HolderStats } {
+  const positive = lines.filter(line => !line.balance.isZero() && !line.balance.isNegative());
+  const totalHeld = IOUValue.sum(positive.map(line => line.balance));
+  // Exact totals above; the statistics themselves only need float precision
+  const total = totalHeld.toNumber();
+
+  const holders: TokenHolder[] = positive
+    .map(line => ({ ...line, share: total === 0 ? 0 : line.balance.toNumber() / total }))
+    // Comparing floats first keeps sorting tens of thousands of holders fast
+    .sort((a, b) => b.share - a.share || b.balance.compare(a.balance));
+
+  const ascending = holders.map(holder => holder.balance.toNumber()).reverse();
+
+  return {
+    holders,
+    stats: {
+      holderCount: holders.length,
+      zeroBalanceLines: lines.filter(line => line.balance.isZero()).length,
+      totalLines: lines.length,
+      totalHeld,
+      top10Share: topShare(holders, 10),
+      top50Share: topShare(holders, 50),
+      gini: giniCoefficient(ascending, total),
+      hhi: holders.reduce((sum, holder) => sum + (holder.share * 100) ** 2, 0)
+    }
+  };
+}
@@ -0,0 +1,220 @@
+// Decoding for the objects account_objects returns: readable labels, the
+// fields worth showing for each type, and how many owner reserves each one
+// ties up.
+import { IOUValue, formatIOU, formatLedgerAmount, formatXRP, type LedgerAmount } from './amount';
+import { Currency } from './currency';
+import { rippleTimeToDate } from './transactions';
+
+// Values accepted by account_objects' type filter
+export type AccountObjectType =
+  | 'check'
+  | 'deposit_preauth'
+  | 'did'
+  | 'escrow'
+  | 'nft_offer'
+  | 'nft_page'
+  | 'offer'
+  | 'oracle'
+  | 'payment_channel'
+  | 'signer_list'
+  | 'state'
+  | 'ticket';
+
+export interface LedgerObject {
+  LedgerEntryType: string;
+  index: string;
+  Flags?: number;
+  [field: string]: any;
+}
+
+export interface ObjectField {
+  label: string;
+  value: string;
+}
+
+// RippleState flags marking which side of a trust line pays its reserve
+export const LSF_LOW_RESERVE = 0x00010000;
+export const LSF_HIGH_RESERVE = 0x00020000;
+// SignerList created after the MultiSignReserve amendment costs one reserve
+const LSF_ONE_OWNER_COUNT = 0x00010000;
+const LSF_SELL_NFTOKEN = 0x00000001;
+const LSF_PASSIVE = 0x00010000;
+const LSF_SELL = 0x00020000;
+// Oracles with more than this many price series cost two reserves
+const ORACLE_SERIES_PER_RESERVE = 5;
+
+const TYPE_LABELS: Record<string, string> = {
+  Check: 'Checks',
+  DepositPreauth: 'Deposit Preauthorizations',
+  DID: 'DIDs',
+  Escrow: 'Escrows',
+  NFTokenOffer: 'NFT Offers',
+  NFTokenPage: 'NFT Pages',
+  Offer: 'DEX Offers',
+  Oracle: 'Price Oracles',
+  PayChannel: 'Payment Channels',
+  RippleState: 'Trust Lines',
+  SignerList: 'Signer Lists',
+  Ticket: 'Tickets'
+};
+
+export function ledgerObjectTypeLabel(type: string): string {
+  return TYPE_LABELS[type] ?? type;
+}
+
+function hasFlag(object: LedgerObject, flag: number): boolean {
+  return ((object.Flags ?? 0) & flag) !== 0;
+}
+
+// Number of owner reserves (OwnerCount increments) this object costs `account`
+export function ownerReserveUnits(object: LedgerObject, account: string): number {
+  switch (object.LedgerEntryType) {
+    case 'RippleState': {
+      // Only the side whose reserve flag is set pays for the line
+      const isLow = object.LowLimit?.issuer === account;
+      return hasFlag(object, isLow ? LSF_LOW_RESERVE : LSF_HIGH_RESERVE) ? 1 : 0;
+    }
+    case 'SignerList':
+      // Legacy signer lists cost 2 plus one per signer
+      return hasFlag(object, LSF_ONE_OWNER_COUNT) ? 1 : 2 + (object.SignerEntries?.length ?? 0);
+    case 'Oracle':
+      return (object.PriceDataSeries?.length ?? 0) > ORACLE_SERIES_PER_RESERVE ? 2 : 1;
+    default:
+      // Escrows, checks and channels also sit in the destination's directory,
+      // but only the account that created them pays the reserve
+      return object.Account === undefined || object.Account === account ? 1 : 0;
+  }
+}
+
+function formatTime(rippleTime: unknown): string | null {
+  return typeof rippleTime === 'number' ? rippleTimeToDate(rippleTime).toLocaleString() : null;
+}
+
+function amountField(label: string, amount: LedgerAmount | undefined): ObjectField | null {
+  return amount === undefined ? null : { label, value: formatLedgerAmount(amount) };
+}
+
+function textField(label: string, value: unknown): ObjectField | null {
+  return value === undefined || value === null ? null : { label, value: String(value) };
+}
+
+// Short title and the details worth showing for an object
+export function describeLedgerObject(object: LedgerObject, account: string): { title: string; fields: ObjectField[] } {
+  const fields: (ObjectField | null)[] = [];
+  let title = object.LedgerEntryType;
+
+  switch (object.LedgerEntryType) {
+    case 'Offer':
+      title = `${hasFlag(object, LSF_SELL) ? 'Sell' : 'Buy'} offer #${object.Sequence}`;
+      fields.push(
+        amountField('Pays', object.TakerGets),
+        amountField('Receives', object.TakerPays),
+        textField('Passive', hasFlag(object, LSF_PASSIVE) ? 'Yes' : null),
+        textField('Expires', formatTime(object.Expiration))
+      );
+      break;
+    case 'Escrow':
+      title = object.Account === account ? `Escrow to ${object.Destination}` : `Escrow from ${object.Account}`;
+      fields.push(
+        amountField('Amount', object.Amount),
+        textField('Finish after', formatTime(object.FinishAfter)),
+        textField('Cancel after', formatTime(object.CancelAfter)),
+        textField('Condition', object.Condition ? 'Crypto-condition required' : null)
+      );
+      break;
+    case 'Check':
+      title = object.Account === account ? `Check to ${object.Destination}` : `Check from ${object.Account}`;
+      fields.push(
+        amountField('Send max', object.SendMax),
+        textField('Expires', formatTime(object.Expiration))
+      );
+      break;
+    case 'PayChannel':
+      title = object.Account === account ? `Channel to ${object.Destination}` : `Channel from ${object.Account}`;
+      fields.push(
+        amountField('Funded', object.Amount),
+        amountField('Paid out', object.Balance),
+        textField('Settle delay', `${object.SettleDelay}s`),
+        textField('Expires', formatTime(object.Expiration ?? object.CancelAfter))
+      );
+      break;
+    case 'Ticket':
+      title = `Ticket #${object.TicketSequence}`;
+      break;
+    case 'SignerList':
+      title = `Signer list (quorum ${object.SignerQuorum})`;
+      fields.push(
+        ...(object.SignerEntries ?? []).map((entry: { SignerEntry: { Account: string; SignerWeight: number } }) => ({
+          label: `Weight ${entry.SignerEntry.SignerWeight}`,
+          value: entry.SignerEntry.Account
+        }))
+      );
+      break;
+    case 'NFTokenOffer':
+      title = `NFT ${hasFlag(object, LSF_SELL_NFTOKEN) ? 'sell' : 'buy'} offer`;
+      fields.push(
+        amountField('Amount', object.Amount),
+        textField('NFT', object.NFTokenID),
+        textField('Destination', object.Destination),
+        textField('Expires', formatTime(object.Expiration))
+      );
+      break;
+    case 'NFTokenPage':
+      title = `NFT page (${object.NFTokens?.length ?? 0} NFTs)`;
+      break;
+    case 'RippleState': {
+      const isLow = object.LowLimit?.issuer === account;
+      const peer = isLow ? object.HighLimit?.issuer : object.LowLimit?.issuer;
+      const currency = Currency.fromLedger(object.Balance?.currency ?? '').display();
+      title = `${currency} with ${peer}`;
+      // Balances are stored from the low account's point of view
+      const balance = IOUValue.parse(object.Balance?.value ?? '0');
+      const limit = (isLow ? object.LowLimit : object.HighLimit)?.value;
+      fields.push(
+        textField('Balance', formatIOU(isLow ? balance : balance.negate())),
+        textField('Limit', limit !== undefined ? formatIOU(limit, { minimumFractionDigits: 0 }) : null)
+      );
+      break;
+    }
+    case 'DepositPreauth':
+      title = `Preauthorized ${object.Authorize}`;
+      break;
+    case 'DID':
+      title = 'Decentralized identifier';
+      fields.push(textField('URI', object.URI), textField('Document', object.DIDDocument ? 'Set' : null));
+      break;
+    case 'Oracle':
+      title = `Oracle #${object.OracleDocumentID}`;
+      fields.push(textField('Price series', object.PriceDataSeries?.length ?? 0));
+      break;
+  }
+
+  return { title, fields: fields.filter((field): field is ObjectField => field !== null) };
+}
+
+export interface LedgerObjectGroup {
+  type: string;
+  label: string;
+  objects: LedgerObject[];
+  reserveUnits: number;
+}
+
+export function groupLedgerObjects(objects: LedgerObject[], account: string): LedgerObjectGroup[] {
+  const groups = new Map<string, LedgerObjectGroup>();
+  objects.forEach(object => {
+    const type = object.LedgerEntryType;
+    let group = groups.get(type);
+    if (!group) {
+      group = { type, label: ledgerObjectTypeLabel(type), objects: [], reserveUnits: 0 };
+      groups.set(type, group);
+    }
+    group.objects.push(object);
+    group.reserveUnits += ownerReserveUnits(object, account);
+  });
+  return [...groups.values()].sort((a, b) => a.label.localeCompare(b.label));
+}
+
+// XRP tied up by a number of owner reserves
+export function formatReserve(units: number, reserveIncrementDrops: bigint): string {
+  return `${formatXRP(BigInt(units) * reserveIncrementDrops)} XRP`;
+}
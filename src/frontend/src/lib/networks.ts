@@ -0,0 +1,174 @@
+export type NetworkId = 'mainnet' | 'testnet' | 'devnet' | 'custom';
+
+export interface NetworkProfile {
+  id: NetworkId;
+  name: string;
+  jsonRpcServers: string[];
+  webSocketServers: string[];
+  // Only mainnet carries real value; everything else gets a warning badge
+  isProduction: boolean;
+}
+
+export interface CustomEndpoints {
+  jsonRpcServers: string[];
+  webSocketServers: string[];
+}
+
+const NETWORK_STORAGE_KEY = 'xrpl_network';
+const CUSTOM_ENDPOINTS_STORAGE_KEY = 'xrpl_custom_network';
+
+const BUILT_IN_NETWORKS: Record<Exclude<NetworkId, 'custom'>, NetworkProfile> = {
+  mainnet: {
+    id: 'mainnet',
+    name: 'Mainnet',
+    jsonRpcServers: [
+      'https://xrplcluster.com',
+      'https://s1.ripple.com:51234',
+      'https://s2.ripple.com:51234'
+    ],
+    webSocketServers: [
+      'wss://xrplcluster.com',
+      'wss://s1.ripple.com',
+      'wss://s2.ripple.com'
+    ],
+    isProduction: true
+  },
+  testnet: {
+    id: 'testnet',
+    name: 'Testnet',
+    jsonRpcServers: [
+      'https://s.altnet.rippletest.net:51234',
+      'https://testnet.xrpl-labs.com'
+    ],
+    webSocketServers: [
+      'wss://s.altnet.rippletest.net:51233',
+      'wss://testnet.xrpl-labs.com'
+    ],
+    isProduction: false
+  },
+  devnet: {
+    id: 'devnet',
+    name: 'Devnet',
+    jsonRpcServers: ['https://s.devnet.rippletest.net:51234'],
+    webSocketServers: ['wss://s.devnet.rippletest.net:51233'],
+    isProduction: false
+  }
+};
+
+type NetworkListener = (network: NetworkProfile) => void;
+
+const listeners = new Set<NetworkListener>();
+
+function loadCustomEndpoints(): CustomEndpoints {
+  try {
+    const stored = localStorage.getItem(CUSTOM_ENDPOINTS_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      return {
+        jsonRpcServers: Array.isArray(parsed.jsonRpcServers) ? parsed.jsonRpcServers : [],
+        webSocketServers: Array.isArray(parsed.webSocketServers) ? parsed.webSocketServers : []
+      };
+    }
+  } catch (error) {
+    console.error('[Networks] Error loading custom endpoints:', error);
+  }
+  return { jsonRpcServers: [], webSocketServers: [] };
+}
+
+function buildProfile(id: NetworkId): NetworkProfile {
+  if (id === 'custom') {
+    return {
+      id: 'custom',
+      name: 'Custom',
+      ...loadCustomEndpoints(),
+      isProduction: false
+    };
+  }
+  return BUILT_IN_NETWORKS[id];
+}
+
+function loadActiveNetworkId(): NetworkId {
+  try {
+    const stored = localStorage.getItem(NETWORK_STORAGE_KEY);
+    if (stored === 'custom') {
+      // A custom profile without endpoints can't serve any requests
+      return loadCustomEndpoints().jsonRpcServers.length > 0 ? 'custom' : 'mainnet';
+    }
+    if (stored && stored in BUILT_IN_NETWORKS) {
+      return stored as NetworkId;
+    }
+  } catch (error) {
+    console.error('[Networks] Error loading active network:', error);
+  }
+  return 'mainnet';
+}
+
+let activeNetwork: NetworkProfile = buildProfile(loadActiveNetworkId());
+
+export function getNetworkProfiles(): NetworkProfile[] {
+  return [...Object.values(BUILT_IN_NETWORKS), buildProfile('custom')];
+}
+
+export function getActiveNetwork(): NetworkProfile {
+  return activeNetwork;
+}
+
+export function setActiveNetwork(id: NetworkId): void {
+  const profile = buildProfile(id);
+  if (profile.jsonRpcServers.length === 0) {
+    throw new Error(`Network "${profile.name}" has no JSON-RPC endpoints configured`);
+  }
+
+  try {
+    localStorage.setItem(NETWORK_STORAGE_KEY, id);
+  } catch (error) {
+    console.error('[Networks] Error saving active network:', error);
+  }
+
+  console.log(`[Networks] Switching to ${profile.name}`, profile);
+  activeNetwork = profile;
+  listeners.forEach(listener => listener(profile));
+}
+
+function isValidEndpoint(url: string, protocols: string[]): boolean {
+  try {
+    return protocols.includes(new URL(url).protocol);
+  } catch {
+    return false;
+  }
+}
+
+export function saveCustomEndpoints(endpoints: CustomEndpoints): void {
+  const invalidRpc = endpoints.jsonRpcServers.find(url => !isValidEndpoint(url, ['http:', 'https:']));
+  if (invalidRpc) {
+    throw new Error(`Invalid JSON-RPC endpoint: ${invalidRpc}. Use an http:// or https:// URL.`);
+  }
+  const invalidWs = endpoints.webSocketServers.find(url => !isValidEndpoint(url, ['ws:', 'wss:']));
+  if (invalidWs) {
+    throw new Error(`Invalid WebSocket endpoint: ${invalidWs}. Use a ws:// or wss:// URL.`);
+  }
+  if (endpoints.jsonRpcServers.length === 0) {
+    throw new Error('At least one JSON-RPC endpoint is required');
+  }
+
+  localStorage.setItem(CUSTOM_ENDPOINTS_STORAGE_KEY, JSON.stringify(endpoints));
+  console.log('[Networks] Saved custom endpoints', endpoints);
+
+  // Apply immediately if the custom profile is the one in use
+  if (activeNetwork.id === 'custom') {
+    setActiveNetwork('custom');
+  }
+}
+
+export function subscribeToNetwork(listener: NetworkListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Scope a localStorage key to the active network. Mainnet keeps the bare key
+// so configuration saved before network profiles existed stays in place.
+export function networkStorageKey(baseKey: string, network: NetworkProfile = activeNetwork): string {
+  return network.id === 'mainnet' ? baseKey : `${baseKey}:${network.id}`;
+}
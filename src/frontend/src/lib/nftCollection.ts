@@ -0,0 +1,81 @@
+// Collection-wide view of an issuer's NFTokens from Clio: which taxa it has
+// minted into, and who owns the tokens that haven't been burned.
+import type { ClioNFT } from './xrpl';
+
+export interface TaxonSummary {
+  taxon: number;
+  minted: number;
+  burned: number;
+}
+
+// Taxa the issuer has minted into, lowest first
+export function summarizeTaxa(nfts: ClioNFT[]): TaxonSummary[] {
+  const taxa = new Map<number, TaxonSummary>();
+  for (const nft of nfts) {
+    let summary = taxa.get(nft.nft_taxon);
+    if (!summary) {
+      summary = { taxon: nft.nft_taxon, minted: 0, burned: 0 };
+      taxa.set(nft.nft_taxon, summary);
+    }
+    summary.minted++;
+    if (nft.is_burned) {
+      summary.burned++;
+    }
+  }
+  return [...taxa.values()].sort((a, b) => a.taxon - b.taxon);
+}
+
+export interface CollectionOwner {
+  address: string;
+  count: number;
+  // Fraction of the live tokens this owner holds, 0-1
+  share: number;
+}
+
+export interface OwnershipStats {
+  minted: number;
+  burned: number;
+  live: number;
+  uniqueOwners: number;
+  // Live tokens the issuer still holds (unsold or returned)
+  heldByIssuer: number;
+  // Fractions of the live tokens held by the largest owners, 0-1
+  topOwnerShare: number;
+  top10Share: number;
+  // Owners with a single token, a rough measure of how widely it's spread
+  singleTokenOwners: number;
+}
+
+export interface CollectionOwnership {
+  // Largest first
+  owners: CollectionOwner[];
+  stats: OwnershipStats;
+}
+
+// Burned tokens keep their last owner on Clio, so they're left out of the
+// ownership counts
+export function analyzeOwnership(nfts: ClioNFT[], issuer: string): CollectionOwnership {
+  const live = nfts.filter(nft => !nft.is_burned);
+  const counts = new Map<string, number>();
+  for (const nft of live) {
+    counts.set(nft.owner, (counts.get(nft.owner) ?? 0) + 1);
+  }
+
+  const owners = [...counts.entries()]
+    .map(([address, count]) => ({ address, count, share: live.length > 0 ? count / live.length : 0 }))
+    .sort((a, b) => b.count - a.count || a.address.localeCompare(b.address));
+
+  return {
+    owners,
+    stats: {
+      minted: nfts.length,
+      burned: nfts.length - live.length,
+      live: live.length,
+      uniqueOwners: owners.length,
+      heldByIssuer: counts.get(issuer) ?? 0,
+      topOwnerShare: owners[0]?.share ?? 0,
+      top10Share: owners.slice(0, 10).reduce((sum, owner) => sum + owner.share, 0),
+      singleTokenOwners: owners.filter(owner => owner.count === 1).length
+    }
+  };
+}
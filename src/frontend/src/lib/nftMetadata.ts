@@ -0,0 +1,249 @@
+// Resolves an NFToken's URI to its metadata. The URI field is hex-encoded
+// and usually points at IPFS, so links are rewritten to a user-configurable
+// HTTP gateway before fetching. Every failure ends up as a result the UI can
+// show rather than an exception.
+import { decodeHexText } from './hex';
+import { abortError } from './scheduler';
+
+const GATEWAY_STORAGE_KEY = 'xrpl_ipfs_gateway';
+export const DEFAULT_IPFS_GATEWAY = 'https://ipfs.io/ipfs/';
+const ARWEAVE_GATEWAY = 'https://arweave.net/';
+
+const FETCH_TIMEOUT_MS = 10_000;
+// Gateways throttle aggressively, so only a few metadata fetches run at once
+const MAX_CONCURRENT_FETCHES = 4;
+// Failed lookups are retried after this long; successful ones last the session
+const FAILURE_TTL_MS = 60_000;
+
+// CIDv0 (base58, "Qm...") or CIDv1 (base32, "b...")
+const CID_PATTERN = /^(Qm[1-9A-HJ-NP-Za-km-z]{44}|b[a-z2-7]{50,})(\/.*)?$/;
+// Path-style gateway links, which are rewritten to the configured gateway
+const GATEWAY_PATH_PATTERN = /^https?:\/\/[^/]+\/ipfs\/(.+)$/;
+
+export function loadIpfsGateway(): string {
+  try {
+    return localStorage.getItem(GATEWAY_STORAGE_KEY) || DEFAULT_IPFS_GATEWAY;
+  } catch (error) {
+    console.error('[NFTMetadata] Error loading IPFS gateway:', error);
+    return DEFAULT_IPFS_GATEWAY;
+  }
+}
+
+// Saves a gateway base URL such as https://ipfs.io/ipfs/; CIDs are appended to it
+export function saveIpfsGateway(gateway: string): string {
+  const trimmed = gateway.trim();
+  let url: URL;
+  try {
+    url = new URL(trimmed);
+  } catch {
+    throw new Error(`Invalid gateway URL: ${trimmed}`);
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new Error('The IPFS gateway must be an http:// or https:// URL');
+  }
+  const normalized = trimmed.endsWith('/') ? trimmed : `${trimmed}/`;
+  localStorage.setItem(GATEWAY_STORAGE_KEY, normalized);
+  console.log('[NFTMetadata] Saved IPFS gateway', normalized);
+  return normalized;
+}
+
+export function resetIpfsGateway(): void {
+  localStorage.removeItem(GATEWAY_STORAGE_KEY);
+}
+
+// The NFToken URI field as text, or null if it's missing or not readable
+export function decodeNFTokenURI(uriHex: string | undefined): string | null {
+  if (!uriHex) {
+    return null;
+  }
+  return decodeHexText(uriHex)?.trim() || null;
+}
+
+// An HTTP(S) or data: URL to fetch for a URI, or null if the scheme isn't supported
+export function resolveURI(uri: string, gateway: string): string | null {
+  if (uri.startsWith('ipfs://')) {
+    // Some minters write ipfs://ipfs/<cid>
+    return gateway + uri.slice('ipfs://'.length).replace(/^ipfs\//, '');
+  }
+  if (uri.startsWith('ar://')) {
+    return ARWEAVE_GATEWAY + uri.slice('ar://'.length);
+  }
+  if (CID_PATTERN.test(uri)) {
+    return gateway + uri;
+  }
+  const gatewayPath = GATEWAY_PATH_PATTERN.exec(uri);
+  if (gatewayPath) {
+    return gateway + gatewayPath[1];
+  }
+  if (/^https?:\/\//.test(uri) || uri.startsWith('data:')) {
+    return uri;
+  }
+  return null;
+}
+
+export interface NFTAttribute {
+  trait: string;
+  value: string;
+}
+
+export interface NFTMetadata {
+  name: string | null;
+  description: string | null;
+  // Resolved, fetchable image URL
+  image: string | null;
+  attributes: NFTAttribute[];
+}
+
+export type NFTMetadataResult =
+  | { status: 'ok'; uri: string; metadata: NFTMetadata }
+  | { status: 'no-uri' }
+  | { status: 'unsupported'; uri: string }
+  | { status: 'error'; uri: string; message: string };
+
+function text(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+function parseAttributes(raw: unknown): NFTAttribute[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  return raw.flatMap(attribute => {
+    if (!attribute || typeof attribute !== 'object') return [];
+    const { trait_type, value } = attribute as Record<string, unknown>;
+    if (value === undefined || value === null) return [];
+    return [{ trait: text(trait_type) ?? 'Trait', value: String(value) }];
+  });
+}
+
+// Pull the standard fields out of a metadata document, tolerating the
+// variations collections use in practice
+export function parseMetadata(json: unknown, gateway: string): NFTMetadata {
+  const doc = (json && typeof json === 'object' ? json : {}) as Record<string, unknown>;
+  const image = text(doc.image) ?? text(doc.image_url) ?? text(doc.animation);
+  return {
+    name: text(doc.name),
+    description: text(doc.description),
+    image: image ? resolveURI(image, gateway) : null,
+    attributes: parseAttributes(doc.attributes ?? doc.properties)
+  };
+}
+
+let activeFetches = 0;
+const waiting: (() => void)[] = [];
+
+async function withFetchSlot<T>(task: () => Promise<T>): Promise<T> {
+  if (activeFetches >= MAX_CONCURRENT_FETCHES) {
+    await new Promise<void>(resolve => waiting.push(resolve));
+  }
+  activeFetches++;
+  try {
+    return await task();
+  } finally {
+    activeFetches--;
+    waiting.shift()?.();
+  }
+}
+
+// Fetch a URL and read its response, with the time limit covering the body
+// as well as the headers so a gateway stalling mid-response can't hang us
+async function fetchWithTimeout<T>(url: string, read: (response: Response) => Promise<T>): Promise<T> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, FETCH_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    return await read(response);
+  } catch (error) {
+    if (timedOut) {
+      throw new Error(`Timed out after ${FETCH_TIMEOUT_MS / 1000}s`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function loadMetadata(uri: string, url: string, gateway: string): Promise<NFTMetadataResult> {
+  try {
+    return await withFetchSlot(() => fetchWithTimeout(url, async (response): Promise<NFTMetadataResult> => {
+      if (!response.ok) {
+        return { status: 'error', uri, message: `HTTP ${response.status} from ${new URL(url).host}` };
+      }
+      // Some NFTs point straight at the image instead of a metadata document
+      if (response.headers.get('content-type')?.startsWith('image/')) {
+        // The <img> loads it itself, so don't download it twice
+        await response.body?.cancel();
+        return { status: 'ok', uri, metadata: { name: null, description: null, image: url, attributes: [] } };
+      }
+      return { status: 'ok', uri, metadata: parseMetadata(await response.json(), gateway) };
+    }));
+  } catch (error) {
+    const message = error instanceof SyntaxError
+      ? 'Metadata is not valid JSON'
+      : error instanceof Error ? error.message : String(error);
+    console.warn(`[NFTMetadata] Failed to load ${url}:`, error);
+    return { status: 'error', uri, message };
+  }
+}
+
+interface CacheEntry {
+  promise: Promise<NFTMetadataResult>;
+  // null for results kept for the whole session
+  expiresAt: number | null;
+}
+
+// Keyed by the resolved URL, so NFTs sharing a metadata file fetch it once
+const cache = new Map<string, CacheEntry>();
+
+// Metadata for an NFToken's hex URI. Callers that abort stop waiting, but the
+// fetch itself carries on so the result is cached for the next viewer.
+export async function fetchNFTMetadata(
+  uriHex: string | undefined,
+  { gateway = loadIpfsGateway(), signal }: { gateway?: string; signal?: AbortSignal } = {}
+): Promise<NFTMetadataResult> {
+  const uri = decodeNFTokenURI(uriHex);
+  if (!uri) {
+    return uriHex ? { status: 'unsupported', uri: uriHex } : { status: 'no-uri' };
+  }
+  const url = resolveURI(uri, gateway);
+  if (!url) {
+    return { status: 'unsupported', uri };
+  }
+
+  let entry = cache.get(url);
+  if (!entry || (entry.expiresAt !== null && entry.expiresAt <= Date.now())) {
+    const promise = loadMetadata(uri, url, gateway);
+    const created: CacheEntry = { promise, expiresAt: null };
+    promise.then(result => {
+      if (result.status === 'error') {
+        created.expiresAt = Date.now() + FAILURE_TTL_MS;
+      }
+    });
+    cache.set(url, created);
+    entry = created;
+  }
+
+  if (!signal) {
+    return entry.promise;
+  }
+  if (signal.aborted) {
+    throw abortError();
+  }
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(abortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    entry.promise.then(result => {
+      signal.removeEventListener('abort', onAbort);
+      resolve(result);
+    });
+  });
+}
+
+export function clearNFTMetadataCache(): void {
+  cache.clear();
+}
@@ -0,0 +1,73 @@
+// Market view of NFT offers: which offers are still live, and the floor and
+// best bid across a set of tokens. Offers can be in XRP or any issued
+// currency, so prices are only compared within the same currency.
+import type { NFTOffer } from './xrpl';
+import { IOUValue, isIssuedAmount, parseDrops, type LedgerAmount } from './amount';
+import { rippleTimeToDate } from './transactions';
+
+export interface NFTOfferBook {
+  sell: NFTOffer[];
+  buy: NFTOffer[];
+}
+
+export function offerExpiration(offer: NFTOffer): Date | null {
+  return offer.expiration === undefined ? null : rippleTimeToDate(offer.expiration);
+}
+
+// Expired offers stay on the ledger until someone cancels them
+export function isOfferExpired(offer: NFTOffer, now = new Date()): boolean {
+  const expiration = offerExpiration(offer);
+  return expiration !== null && expiration <= now;
+}
+
+function amountAssetKey(amount: LedgerAmount): string {
+  return isIssuedAmount(amount) ? `${amount.currency}:${amount.issuer}` : 'XRP';
+}
+
+// Compare two amounts of the same asset
+function compareAmounts(a: LedgerAmount, b: LedgerAmount): number {
+  if (isIssuedAmount(a) && isIssuedAmount(b)) {
+    return IOUValue.parse(a.value).compare(IOUValue.parse(b.value));
+  }
+  const difference = parseDrops(a as string) - parseDrops(b as string);
+  return difference === 0n ? 0 : difference < 0n ? -1 : 1;
+}
+
+// The best amount per asset, XRP first. Picks the lowest for asks and the
+// highest for bids.
+function bestPerAsset(offers: NFTOffer[], pick: 'lowest' | 'highest'): LedgerAmount[] {
+  const best = new Map<string, LedgerAmount>();
+  for (const offer of offers) {
+    const key = amountAssetKey(offer.amount);
+    const current = best.get(key);
+    const order = current === undefined ? 0 : compareAmounts(offer.amount, current);
+    if (current === undefined || (pick === 'lowest' ? order < 0 : order > 0)) {
+      best.set(key, offer.amount);
+    }
+  }
+  return [...best.entries()]
+    .sort(([a], [b]) => (a === 'XRP' ? -1 : b === 'XRP' ? 1 : a.localeCompare(b)))
+    .map(([, amount]) => amount);
+}
+
+export interface NFTMarket {
+  // Lowest public sell offer per asset
+  floor: LedgerAmount[];
+  // Highest buy offer per asset
+  highestBid: LedgerAmount[];
+  sellCount: number;
+  buyCount: number;
+}
+
+// Floor and best bid across the offer books of one or more tokens. Expired
+// offers are ignored, as are sell offers reserved for a single buyer.
+export function summarizeNFTMarket(books: NFTOfferBook[], now = new Date()): NFTMarket {
+  const sell = books.flatMap(book => book.sell).filter(offer => !isOfferExpired(offer, now));
+  const buy = books.flatMap(book => book.buy).filter(offer => !isOfferExpired(offer, now));
+  return {
+    floor: bestPerAsset(sell.filter(offer => !offer.destination), 'lowest'),
+    highestBid: bestPerAsset(buy, 'highest'),
+    sellCount: sell.length,
+    buyCount: buy.length
+  };
+}
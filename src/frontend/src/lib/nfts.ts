@@ -0,0 +1,155 @@
+// NFToken decoding and grouping. The 32-byte NFTokenID packs the token's
+// flags, transfer fee, issuer, scrambled taxon and mint sequence, so most of
+// what we show about a token comes straight out of its ID.
+import type { NFToken } from './xrpl';
+import { encodeAccountID, type ClassicAddress } from './addressCodec';
+import { hexToBytes } from './hex';
+
+export interface NFTFlag {
+  name: string;
+  label: string;
+  description: string;
+}
+
+export interface DecodedNFTFlag extends NFTFlag {
+  enabled: boolean;
+}
+
+// NFToken flags, in the order they're shown
+const NFT_FLAGS: (NFTFlag & { mask: number })[] = [
+  { mask: 0x0001, name: 'lsfBurnable', label: 'Burnable', description: 'The issuer can burn the token even when someone else holds it' },
+  { mask: 0x0002, name: 'lsfOnlyXRP', label: 'Only XRP', description: 'The token can only be bought and sold for XRP' },
+  { mask: 0x0008, name: 'lsfTransferable', label: 'Transferable', description: 'Holders can transfer the token to others, not just back to the issuer' },
+  { mask: 0x0010, name: 'lsfMutable', label: 'Mutable', description: 'The issuer can change the token\'s URI' }
+];
+
+export function decodeNFTFlags(flags: number): DecodedNFTFlag[] {
+  return NFT_FLAGS.map(({ mask, ...flag }) => ({ ...flag, enabled: (flags & mask) !== 0 }));
+}
+
+export interface DecodedNFTokenID {
+  flags: number;
+  // Fee the issuer takes on secondary sales, in 1/100,000ths (0-50,000)
+  transferFee: number;
+  issuer: ClassicAddress;
+  // Mint sequence on the issuer's account; unique per issuer
+  sequence: number;
+}
+
+export function decodeNFTokenID(id: string): DecodedNFTokenID {
+  if (!/^[0-9A-Fa-f]{64}$/.test(id)) {
+    throw new Error(`Invalid NFTokenID: ${id}`);
+  }
+  const bytes = hexToBytes(id);
+  const view = new DataView(bytes.buffer);
+  return {
+    flags: view.getUint16(0),
+    transferFee: view.getUint16(2),
+    issuer: encodeAccountID(bytes.slice(4, 24)),
+    // Bytes 24-28 hold the taxon scrambled with the sequence; the ledger
+    // already reports the plain NFTokenTaxon
+    sequence: view.getUint32(28)
+  };
+}
+
+export function formatNFTTransferFee(transferFee: number): string {
+  return transferFee === 0
+    ? 'None'
+    : `${(transferFee / 1000).toLocaleString(undefined, { maximumFractionDigits: 3 })}%`;
+}
+
+export interface NFTDetails {
+  nft: NFToken;
+  flags: DecodedNFTFlag[];
+  transferable: boolean;
+  transferFee: number;
+  sequence: number;
+  collectionKey: string;
+}
+
+export function collectionKey(issuer: string, taxon: number): string {
+  return `${issuer}:${taxon}`;
+}
+
+export function describeNFT(nft: NFToken): NFTDetails {
+  const decoded = decodeNFTokenID(nft.NFTokenID);
+  const flags = decodeNFTFlags(nft.Flags);
+  return {
+    nft,
+    flags,
+    transferable: flags.some(flag => flag.name === 'lsfTransferable' && flag.enabled),
+    transferFee: decoded.transferFee,
+    sequence: decoded.sequence,
+    collectionKey: collectionKey(nft.Issuer, nft.NFTokenTaxon)
+  };
+}
+
+export interface NFTCollection {
+  key: string;
+  issuer: string;
+  taxon: number;
+  nfts: NFTDetails[];
+  transferableCount: number;
+}
+
+// Collections are an issuer plus a taxon, largest first
+export function groupCollections(nfts: NFTDetails[]): NFTCollection[] {
+  const collections = new Map<string, NFTCollection>();
+  for (const details of nfts) {
+    let collection = collections.get(details.collectionKey);
+    if (!collection) {
+      collection = {
+        key: details.collectionKey,
+        issuer: details.nft.Issuer,
+        taxon: details.nft.NFTokenTaxon,
+        nfts: [],
+        transferableCount: 0
+      };
+      collections.set(details.collectionKey, collection);
+    }
+    collection.nfts.push(details);
+    if (details.transferable) {
+      collection.transferableCount++;
+    }
+  }
+  return [...collections.values()].sort(
+    (a, b) => b.nfts.length - a.nfts.length || a.issuer.localeCompare(b.issuer) || a.taxon - b.taxon
+  );
+}
+
+export type TransferabilityFilter = 'all' | 'transferable' | 'non-transferable';
+
+export interface NFTFilter {
+  // A collection key, or 'all'
+  collection: string;
+  transferability: TransferabilityFilter;
+}
+
+export type NFTSortKey = 'collection' | 'serial' | 'transferable';
+
+export const NFT_SORT_LABELS: Record<NFTSortKey, string> = {
+  collection: 'Collection',
+  serial: 'Serial',
+  transferable: 'Transferable first'
+};
+
+export function filterNFTs(nfts: NFTDetails[], { collection, transferability }: NFTFilter): NFTDetails[] {
+  return nfts.filter(details =>
+    (collection === 'all' || details.collectionKey === collection) &&
+    (transferability === 'all' || details.transferable === (transferability === 'transferable'))
+  );
+}
+
+function compareCollection(a: NFTDetails, b: NFTDetails): number {
+  return a.nft.Issuer.localeCompare(b.nft.Issuer) || a.nft.NFTokenTaxon - b.nft.NFTokenTaxon;
+}
+
+export function sortNFTs(nfts: NFTDetails[], sortKey: NFTSortKey): NFTDetails[] {
+  const bySerial = (a: NFTDetails, b: NFTDetails) => a.nft.nft_serial - b.nft.nft_serial;
+  const comparators: Record<NFTSortKey, (a: NFTDetails, b: NFTDetails) => number> = {
+    collection: (a, b) => compareCollection(a, b) || bySerial(a, b),
+    serial: (a, b) => bySerial(a, b) || compareCollection(a, b),
+    transferable: (a, b) => Number(b.transferable) - Number(a.transferable) || compareCollection(a, b) || bySerial(a, b)
+  };
+  return [...nfts].sort(comparators[sortKey]);
+}
@@ -0,0 +1,117 @@
+// Turns both sides of a book_offers order book into price levels: best bid
+// and ask, mid and spread, and cumulative depth for charting. Prices are in
+// counter asset per unit of base asset; everything here is display-only, so
+// plain numbers are precise enough.
+import type { BookOffer, OrderBookOffers } from './xrpl';
+import { ledgerAmountToNumber } from './amount';
+
+export interface BookLevel {
+  price: number;
+  // Base asset available at this price
+  amount: number;
+  // Base asset available at this price or better
+  cumulative: number;
+}
+
+export interface OrderBookSummary {
+  // Highest price first
+  bids: BookLevel[];
+  // Lowest price first
+  asks: BookLevel[];
+  bestBid: number | null;
+  bestAsk: number | null;
+  mid: number | null;
+  spread: number | null;
+  // Spread as a percentage of the mid price
+  spreadPercent: number | null;
+  ledgerIndex: number;
+}
+
+// What an offer can actually trade, given its owner's funds
+function fundedAmounts(offer: BookOffer): { gets: number; pays: number } {
+  return {
+    gets: ledgerAmountToNumber(offer.taker_gets_funded ?? offer.TakerGets),
+    pays: ledgerAmountToNumber(offer.taker_pays_funded ?? offer.TakerPays)
+  };
+}
+
+// `sellsBase`: the offer gives the base asset (an ask) rather than taking it (a bid)
+function toLevel(offer: BookOffer, sellsBase: boolean): Omit<BookLevel, 'cumulative'> | null {
+  // Prices come from the unfunded amounts; partial funding scales both sides
+  const price = sellsBase
+    ? ledgerAmountToNumber(offer.TakerPays) / ledgerAmountToNumber(offer.TakerGets)
+    : ledgerAmountToNumber(offer.TakerGets) / ledgerAmountToNumber(offer.TakerPays);
+  const { gets, pays } = fundedAmounts(offer);
+  const amount = sellsBase ? gets : pays;
+  return amount > 0 && price > 0 && Number.isFinite(price) ? { price, amount } : null;
+}
+
+// Merge offers at the same price and add a running total
+function accumulate(levels: Omit<BookLevel, 'cumulative'>[]): BookLevel[] {
+  const merged: BookLevel[] = [];
+  let cumulative = 0;
+  levels.forEach(level => {
+    cumulative += level.amount;
+    const last = merged[merged.length - 1];
+    if (last && last.price === level.price) {
+      last.amount += level.amount;
+      last.cumulative = cumulative;
+    } else {
+      merged.push({ ...level, cumulative });
+    }
+  });
+  return merged;
+}
+
+export function buildOrderBook(book: OrderBookOffers): OrderBookSummary {
+  const asks = accumulate(
+    book.asks
+      .map(offer => toLevel(offer, true))
+      .filter((level): level is Omit<BookLevel, 'cumulative'> => level !== null)
+      .sort((a, b) => a.price - b.price)
+  );
+  const bids = accumulate(
+    book.bids
+      .map(offer => toLevel(offer, false))
+      .filter((level): level is Omit<BookLevel, 'cumulative'> => level !== null)
+      .sort((a, b) => b.price - a.price)
+  );
+
+  const bestBid = bids[0]?.price ?? null;
+  const bestAsk = asks[0]?.price ?? null;
+  const mid = bestBid !== null && bestAsk !== null ? (bestBid + bestAsk) / 2 : null;
+  const spread = bestBid !== null && bestAsk !== null ? bestAsk - bestBid : null;
+
+  return {
+    bids,
+    asks,
+    bestBid,
+    bestAsk,
+    mid,
+    spread,
+    spreadPercent: spread !== null && mid ? (spread / mid) * 100 : null,
+    ledgerIndex: book.ledgerIndex
+  };
+}
+
+export interface DepthPoint {
+  price: number;
+  bids?: number;
+  asks?: number;
+}
+
+// Points for a depth chart: bids stepping down to the left of the mid,
+// asks stepping up to the right
+export function depthChartData(book: OrderBookSummary): DepthPoint[] {
+  return [
+    ...[...book.bids].reverse().map(level => ({ price: level.price, bids: level.cumulative })),
+    ...book.asks.map(level => ({ price: level.price, asks: level.cumulative }))
+  ];
+}
+
+export function formatPrice(price: number | null): string {
+  if (price === null) {
+    return '—';
+  }
+  return price.toLocaleString(undefined, { maximumSignificantDigits: 6 });
+}
@@ -0,0 +1,202 @@
+// Values issued tokens in XRP. Each token is quoted at the lower of the best
+// DEX bid (what an offer would pay for it right now) and the AMM pool's spot
+// price net of its trading fee, so a wallet is never shown as worth more than
+// the market would pay on either venue. Neither quote accounts for slippage on
+// large holdings. Quotes are display-only and use plain numbers.
+import { fetchAMMInfo, fetchBookOffers, type RequestOptions, type TrustLine } from './xrpl';
+import { IOUValue, ledgerAmountToNumber } from './amount';
+import { orientPool } from './amm';
+import { XRP_ASSET } from './assetPairs';
+import { Currency } from './currency';
+import { buildOrderBook } from './orderBook';
+import { isAbortError } from './scheduler';
+import { describeXRPLError } from './xrplErrors';
+
+export type PriceSource = 'dex' | 'amm';
+
+export interface TokenQuote {
+  // XRP per token; null when neither venue has liquidity
+  priceXrp: number | null;
+  source: PriceSource | null;
+  ledgerIndex: number | null;
+  // Set when the quote couldn't be fetched at all
+  error: string | null;
+}
+
+export interface TokenRef {
+  currency: string;
+  issuer: string;
+}
+
+export const PRICE_SOURCE_LABELS: Record<PriceSource, string> = {
+  dex: 'DEX bid',
+  amm: 'AMM after fee'
+};
+
+// Only the best bids matter for a quote
+const QUOTE_BOOK_LIMIT = 10;
+
+// AMM trading fees are in 1/100,000ths (1000 = 1%)
+const AMM_FEE_DENOMINATOR = 100_000;
+
+export function tokenKey(token: TokenRef): string {
+  return `${Currency.fromLedger(token.currency).encode()}:${token.issuer}`;
+}
+
+export async function quoteInXRP(token: TokenRef, options: RequestOptions = {}): Promise<TokenQuote> {
+  const asset = { currency: token.currency, issuer: token.issuer };
+  // Bids for the token: offers giving XRP and taking the token
+  const [book, pool] = await Promise.allSettled([
+    fetchBookOffers(XRP_ASSET, asset, { ...options, limit: QUOTE_BOOK_LIMIT }),
+    fetchAMMInfo(asset, XRP_ASSET, options)
+  ]);
+
+  for (const outcome of [book, pool]) {
+    if (outcome.status === 'rejected' && isAbortError(outcome.reason)) {
+      throw outcome.reason;
+    }
+  }
+  if (book.status === 'rejected' && pool.status === 'rejected') {
+    throw book.reason;
+  }
+
+  const candidates: { price: number; source: PriceSource; ledgerIndex: number }[] = [];
+  if (book.status === 'fulfilled') {
+    const { bestBid } = buildOrderBook({ asks: [], bids: book.value.offers, ledgerIndex: book.value.ledgerIndex });
+    if (bestBid !== null) {
+      candidates.push({ price: bestBid, source: 'dex', ledgerIndex: book.value.ledgerIndex });
+    }
+  }
+  if (pool.status === 'fulfilled' && pool.value) {
+    const { price } = orientPool(pool.value, asset);
+    if (price !== null && price > 0) {
+      // Selling into the pool pays the trading fee
+      const netPrice = price * (1 - pool.value.trading_fee / AMM_FEE_DENOMINATOR);
+      candidates.push({ price: netPrice, source: 'amm', ledgerIndex: pool.value.ledger_index });
+    }
+  }
+
+  const conservative = candidates.sort((a, b) => a.price - b.price)[0];
+  if (conservative) {
+    return { priceXrp: conservative.price, source: conservative.source, ledgerIndex: conservative.ledgerIndex, error: null };
+  }
+  // One venue failing and the other having no liquidity isn't a real "no
+  // liquidity": the failed venue might have had some
+  const failure = book.status === 'rejected' ? book.reason : pool.status === 'rejected' ? pool.reason : null;
+  if (failure !== null) {
+    console.error(`[Pricing] Partial quote failure for ${token.currency} (${token.issuer}):`, failure);
+  }
+  return {
+    priceXrp: null,
+    source: null,
+    ledgerIndex: null,
+    error: failure === null ? null : describeXRPLError(failure, 'Quote failed')
+  };
+}
+
+// Quote each distinct token once. A token whose quote fails comes back with
+// `error` set instead of failing the whole batch.
+export async function quoteTokens(tokens: TokenRef[], options: RequestOptions = {}): Promise<Map<string, TokenQuote>> {
+  const unique = new Map(tokens.map(token => [tokenKey(token), token]));
+  const entries = await Promise.all([...unique].map(async ([key, token]): Promise<[string, TokenQuote]> => {
+    try {
+      return [key, await quoteInXRP(token, options)];
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.error(`[Pricing] Failed to quote ${token.currency} (${token.issuer}):`, error);
+      return [key, { priceXrp: null, source: null, ledgerIndex: null, error: describeXRPLError(error, 'Quote failed') }];
+    }
+  }));
+  return new Map(entries);
+}
+
+export interface HoldingValue {
+  token: TokenRef;
+  balance: IOUValue;
+  quote: TokenQuote | null;
+  valueXrp: number | null;
+}
+
+export interface AllocationSlice {
+  // 'XRP' or the token's tokenKey, unique within an allocation
+  key: string;
+  label: string;
+  valueXrp: number;
+  // Fraction of the priced total, 0-1
+  share: number;
+}
+
+export interface PortfolioValuation {
+  xrpDrops: bigint;
+  holdings: HoldingValue[];
+  // XRP plus every token that could be priced
+  totalXrp: number;
+  allocation: AllocationSlice[];
+  // Held tokens with no price, left out of the total
+  unpriced: HoldingValue[];
+}
+
+export function valueHolding(balance: IOUValue | string, quote: TokenQuote | null | undefined): number | null {
+  if (!quote || quote.priceXrp === null) {
+    return null;
+  }
+  const amount = typeof balance === 'string' ? IOUValue.parse(balance) : balance;
+  return amount.toNumber() * quote.priceXrp;
+}
+
+function isHeld(line: TrustLine): boolean {
+  const balance = IOUValue.parse(line.balance);
+  return !balance.isZero() && !balance.isNegative();
+}
+
+// The distinct tokens a wallet holds a positive balance of. Lines where the
+// wallet owes (it issued the token) or holds nothing have no value to price.
+export function heldTokens(lines: TrustLine[]): TokenRef[] {
+  const tokens = new Map<string, TokenRef>();
+  for (const line of lines.filter(isHeld)) {
+    const token = { currency: line.currency, issuer: line.account };
+    tokens.set(tokenKey(token), token);
+  }
+  return [...tokens.values()];
+}
+
+// Value a wallet's XRP and positive token balances. Lines where the wallet
+// owes (it issued the token) aren't assets and are skipped.
+export function valuePortfolio(xrpDrops: bigint, lines: TrustLine[], quotes: Map<string, TokenQuote>): PortfolioValuation {
+  // Approximate XRP for totals and shares; the exact amount stays in xrpDrops
+  const xrp = ledgerAmountToNumber(xrpDrops.toString());
+  const holdings: HoldingValue[] = lines
+    .filter(isHeld)
+    .map(line => {
+      const token = { currency: line.currency, issuer: line.account };
+      const quote = quotes.get(tokenKey(token)) ?? null;
+      const balance = IOUValue.parse(line.balance);
+      return { token, balance, quote, valueXrp: valueHolding(balance, quote) };
+    });
+
+  const priced = holdings.filter((holding): holding is HoldingValue & { valueXrp: number } => holding.valueXrp !== null);
+  const totalXrp = priced.reduce((sum, holding) => sum + holding.valueXrp, xrp);
+
+  const slices = [
+    { key: 'XRP', label: 'XRP', valueXrp: xrp },
+    ...priced.map(holding => ({
+      key: tokenKey(holding.token),
+      label: Currency.fromLedger(holding.token.currency).display(),
+      valueXrp: holding.valueXrp
+    }))
+  ];
+
+  return {
+    xrpDrops,
+    holdings,
+    totalXrp,
+    allocation: slices
+      .map(slice => ({ ...slice, share: totalXrp > 0 ? slice.valueXrp / totalXrp : 0 }))
+      .sort((a, b) => b.valueXrp - a.valueXrp),
+    unpriced: holdings.filter(holding => holding.valueXrp === null)
+  };
+}
+
+export function formatXRPValue(value: number): string {
+  return value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: value < 1 ? 6 : 2 });
+}
@@ -0,0 +1,213 @@
+// Response cache and in-flight de-duplication for XRPL requests. Identical
+// concurrent requests share one network call, and recent results are served
+// from memory until their method's TTL expires. Results pinned to a numeric
+// ledger index never change, so they stay cached until evicted. Every caller
+// gets its own copy of a result, so sorting or editing it can't change what
+// later callers see.
+import { subscribeToNetwork } from './networks';
+import { abortError } from './scheduler';
+
+// How long results queried against the latest validated ledger stay fresh.
+// Methods not listed here are only de-duplicated, never cached.
+const METHOD_TTLS_MS: Record<string, number> = {
+  account_info: 4_000,
+  account_lines: 10_000,
+  account_nfts: 30_000,
+  account_objects: 10_000,
+  gateway_balances: 10_000,
+  book_offers: 4_000,
+  amm_info: 10_000,
+  nft_sell_offers: 10_000,
+  nft_buy_offers: 10_000,
+  nfts_by_issuer: 30_000,
+  nft_info: 10_000,
+  // Reserve settings only change through a validator vote
+  server_state: 60_000
+};
+
+const MAX_ENTRIES = 500;
+
+interface CacheEntry {
+  value: unknown;
+  // null for entries pinned to a ledger index, which never expire
+  expiresAt: number | null;
+  account: string | null;
+}
+
+// A network request shared by every caller that asked for the same key. It is
+// only aborted once all of those callers have cancelled.
+interface InFlightRequest {
+  key: string;
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiters: number;
+}
+
+const entries = new Map<string, CacheEntry>();
+const inFlight = new Map<string, InFlightRequest>();
+
+// JSON with sorted object keys, so parameter order doesn't change the key
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const fields = Object.keys(value)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function cacheKey(method: string, params: Record<string, unknown>): string {
+  return `${method}:${stableStringify(params)}`;
+}
+
+// Expiry for a new entry, or undefined if the result must not be cached
+function expiryFor(method: string, params: Record<string, unknown>): number | null | undefined {
+  if (typeof params.ledger_index === 'number') {
+    return null;
+  }
+  const ttl = METHOD_TTLS_MS[method];
+  if (ttl === undefined || (params.ledger_index !== undefined && params.ledger_index !== 'validated')) {
+    // 'current' and 'closed' ledgers can still change under us
+    return undefined;
+  }
+  return Date.now() + ttl;
+}
+
+function store(key: string, entry: CacheEntry): void {
+  entries.delete(key);
+  entries.set(key, entry);
+  // Maps iterate in insertion order, so the first key is the least recently used
+  while (entries.size > MAX_ENTRIES) {
+    const oldest = entries.keys().next().value;
+    if (oldest === undefined) break;
+    entries.delete(oldest);
+  }
+}
+
+// Results are plain JSON from the server, so a structured clone copies them fully
+function copyResult<T>(value: unknown): T {
+  return structuredClone(value) as T;
+}
+
+function join<T>(request: InFlightRequest, signal?: AbortSignal): Promise<T> {
+  request.waiters++;
+  if (!signal) {
+    return request.promise.then(value => copyResult<T>(value));
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      request.waiters--;
+      if (request.waiters === 0) {
+        console.log('[RequestCache] All callers cancelled, aborting request', request.key);
+        request.controller.abort();
+        if (inFlight.get(request.key) === request) {
+          inFlight.delete(request.key);
+        }
+      }
+      reject(abortError());
+    };
+
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+    request.promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(copyResult<T>(value));
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+export function cachedRequest<T>(
+  method: string,
+  params: Record<string, unknown>,
+  send: (signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  if (signal?.aborted) {
+    return Promise.reject(abortError());
+  }
+
+  const key = cacheKey(method, params);
+
+  const cached = entries.get(key);
+  if (cached) {
+    if (cached.expiresAt === null || cached.expiresAt > Date.now()) {
+      console.log(`[RequestCache] Hit for ${method}`, params);
+      // Refresh its position so frequently used entries survive eviction
+      store(key, cached);
+      return Promise.resolve(copyResult<T>(cached.value));
+    }
+    entries.delete(key);
+  }
+
+  const pending = inFlight.get(key);
+  if (pending) {
+    console.log(`[RequestCache] Joining in-flight ${method} request`, params);
+    return join<T>(pending, signal);
+  }
+
+  const controller = new AbortController();
+  const request: InFlightRequest = { key, promise: Promise.resolve(), controller, waiters: 0 };
+  request.promise = send(controller.signal)
+    .then(value => {
+      const expiresAt = expiryFor(method, params);
+      // Skip the write if the cache was cleared while this request was running
+      if (expiresAt !== undefined && inFlight.get(key) === request) {
+        store(key, {
+          value,
+          expiresAt,
+          account: typeof params.account === 'string' ? params.account : null
+        });
+      }
+      return value;
+    })
+    .finally(() => {
+      if (inFlight.get(key) === request) {
+        inFlight.delete(key);
+      }
+    });
+  // Callers see the rejection through join(); don't report it as unhandled here
+  request.promise.catch(() => {});
+
+  inFlight.set(key, request);
+  return join<T>(request, signal);
+}
+
+// Drop an account's results that follow the latest ledger, e.g. after a
+// transaction touched it. Ledger-pinned entries are still correct and stay.
+export function invalidateAccount(account: string): void {
+  let removed = 0;
+  entries.forEach((entry, key) => {
+    if (entry.account === account && entry.expiresAt !== null) {
+      entries.delete(key);
+      removed++;
+    }
+  });
+  if (removed > 0) {
+    console.log(`[RequestCache] Invalidated ${removed} entries for ${account}`);
+  }
+}
+
+export function clearRequestCache(): void {
+  entries.clear();
+  inFlight.forEach(request => request.controller.abort());
+  inFlight.clear();
+  console.log('[RequestCache] Cleared');
+}
+
+// Ledger indexes and accounts from one network mean nothing on another
+subscribeToNetwork(() => clearRequestCache());
@@ -0,0 +1,89 @@
+// Splits an account's XRP into what it can spend and what the ledger holds
+// back as reserve: the base reserve every account pays, plus one owner
+// reserve increment per owned object.
+import type { AccountInfo, ReserveSettings } from './xrpl';
+import { groupLedgerObjects, ownerReserveUnits, type LedgerObject } from './ledgerObjects';
+import { Currency } from './currency';
+
+export interface XRPBreakdown {
+  totalDrops: bigint;
+  baseReserveDrops: bigint;
+  ownerReserveDrops: bigint;
+  reservedDrops: bigint;
+  // Never negative; an account below its reserve simply can't send XRP
+  spendableDrops: bigint;
+  ownerCount: number;
+}
+
+export function computeXRPBreakdown(accountInfo: AccountInfo, reserves: ReserveSettings): XRPBreakdown {
+  const totalDrops = BigInt(accountInfo.Balance);
+  const ownerReserveDrops = BigInt(accountInfo.OwnerCount) * reserves.incrementDrops;
+  const reservedDrops = reserves.baseDrops + ownerReserveDrops;
+  const spendableDrops = totalDrops > reservedDrops ? totalDrops - reservedDrops : 0n;
+
+  return {
+    totalDrops,
+    baseReserveDrops: reserves.baseDrops,
+    ownerReserveDrops,
+    reservedDrops,
+    spendableDrops,
+    ownerCount: accountInfo.OwnerCount
+  };
+}
+
+export interface ReserveComponent {
+  type: string;
+  label: string;
+  units: number;
+  drops: bigint;
+}
+
+// Which kinds of object make up the owner reserve. Objects the account
+// doesn't pay for (e.g. trust lines where the peer holds the reserve) are left out.
+export function ownerReserveComposition(
+  objects: LedgerObject[],
+  account: string,
+  reserves: ReserveSettings
+): ReserveComponent[] {
+  return groupLedgerObjects(objects, account)
+    .filter(group => group.reserveUnits > 0)
+    .map(group => ({
+      type: group.type,
+      label: group.label,
+      units: group.reserveUnits,
+      drops: BigInt(group.reserveUnits) * reserves.incrementDrops
+    }))
+    .sort((a, b) => (a.drops === b.drops ? 0 : a.drops > b.drops ? -1 : 1));
+}
+
+function trustLineKey(currency: string, peer: string): string {
+  return `${Currency.fromLedger(currency).encode()}:${peer}`;
+}
+
+// XRP that removing each of the account's trust lines would release, keyed
+// by trustLineKey. Lines whose reserve the peer pays release nothing.
+export function trustLineReserves(
+  objects: LedgerObject[],
+  account: string,
+  reserves: ReserveSettings
+): Map<string, bigint> {
+  const released = new Map<string, bigint>();
+  objects
+    .filter(object => object.LedgerEntryType === 'RippleState')
+    .forEach(object => {
+      const peer = object.LowLimit?.issuer === account ? object.HighLimit?.issuer : object.LowLimit?.issuer;
+      const units = ownerReserveUnits(object, account);
+      released.set(trustLineKey(object.Balance?.currency ?? '', peer), BigInt(units) * reserves.incrementDrops);
+    });
+  return released;
+}
+
+// Reserve released by removing the line with `peer` in `currency`, or null
+// if the line isn't among the account's objects
+export function trustLineReserveRelease(
+  released: Map<string, bigint>,
+  currency: string,
+  peer: string
+): bigint | null {
+  return released.get(trustLineKey(currency, peer)) ?? null;
+}
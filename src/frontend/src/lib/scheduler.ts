@@ -0,0 +1,121 @@
+// Runs XRPL requests in parallel up to a concurrency limit. Queued requests
+// start in priority order, so the view the user is looking at isn't stuck
+// behind background refreshes, and can be cancelled before they start.
+
+export type RequestPriority = 'high' | 'normal' | 'low';
+
+const PRIORITY_ORDER: Record<RequestPriority, number> = { high: 0, normal: 1, low: 2 };
+const DEFAULT_CONCURRENCY = 4;
+
+export interface ScheduleOptions {
+  priority?: RequestPriority;
+  signal?: AbortSignal;
+}
+
+interface QueuedTask {
+  priority: RequestPriority;
+  // Tie-breaker so equal priorities run first-in, first-out
+  sequence: number;
+  start: () => void;
+  cancel: () => void;
+}
+
+let concurrencyLimit = DEFAULT_CONCURRENCY;
+let running = 0;
+let nextSequence = 0;
+const queue: QueuedTask[] = [];
+
+export function abortError(): DOMException {
+  return new DOMException('Request was cancelled', 'AbortError');
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw abortError();
+  }
+}
+
+// Resolve after a delay, or reject early if the signal aborts
+export function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function drain(): void {
+  while (running < concurrencyLimit && queue.length > 0) {
+    queue.sort((a, b) =>
+      PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] || a.sequence - b.sequence
+    );
+    const task = queue.shift()!;
+    running++;
+    task.start();
+  }
+}
+
+export function scheduleRequest<T>(
+  task: (signal?: AbortSignal) => Promise<T>,
+  { priority = 'normal', signal }: ScheduleOptions = {}
+): Promise<T> {
+  if (signal?.aborted) {
+    return Promise.reject(abortError());
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => queued.cancel();
+
+    const queued: QueuedTask = {
+      priority,
+      sequence: nextSequence++,
+      start: () => {
+        signal?.removeEventListener('abort', onAbort);
+        task(signal)
+          .then(resolve, reject)
+          .finally(() => {
+            running--;
+            drain();
+          });
+      },
+      cancel: () => {
+        const index = queue.indexOf(queued);
+        if (index !== -1) {
+          queue.splice(index, 1);
+          reject(abortError());
+        }
+      }
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    queue.push(queued);
+    drain();
+  });
+}
+
+export function setConcurrencyLimit(limit: number): void {
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error(`Concurrency limit must be a positive integer, got ${limit}`);
+  }
+  console.log(`[Scheduler] Concurrency limit set to ${limit}`);
+  concurrencyLimit = limit;
+  drain();
+}
+
+export function getSchedulerStats(): { running: number; queued: number; limit: number } {
+  return { running, queued: queue.length, limit: concurrencyLimit };
+}
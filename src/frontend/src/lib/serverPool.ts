@@ -0,0 +1,279 @@
+// Health-scored pool of JSON-RPC endpoints. Every request is routed to the
+// healthiest server; failing servers are taken out of rotation by a circuit
+// breaker and brought back once background probes see them recover.
+import { getActiveNetwork, subscribeToNetwork } from './networks';
+
+const PROBE_INTERVAL_MS = 30_000;
+const PROBE_TIMEOUT_MS = 10_000;
+// Number of recent outcomes used for the rolling error rate
+const OUTCOME_WINDOW = 20;
+// Weight of the newest sample in the latency moving average
+const LATENCY_SMOOTHING = 0.3;
+const FAILURES_TO_OPEN = 3;
+const CIRCUIT_COOLDOWN_MS = 30_000;
+
+// Score penalties, in "milliseconds of latency" equivalents
+const ERROR_RATE_PENALTY = 3000;
+const LEDGER_LAG_PENALTY = 250;
+const UNKNOWN_LATENCY_MS = 1000;
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface ServerHealth {
+  url: string;
+  latencyMs: number | null;
+  errorRate: number;
+  validatedLedger: number | null;
+  // Validated ledgers behind the most up-to-date server in the pool
+  ledgerLag: number | null;
+  circuit: CircuitState;
+  consecutiveFailures: number;
+  lastCheckedAt: number | null;
+  lastError: string | null;
+}
+
+interface ServerRecord {
+  url: string;
+  latencyMs: number | null;
+  outcomes: boolean[];
+  validatedLedger: number | null;
+  circuit: CircuitState;
+  openedAt: number | null;
+  consecutiveFailures: number;
+  lastCheckedAt: number | null;
+  lastError: string | null;
+}
+
+type PoolListener = () => void;
+
+function createRecord(url: string): ServerRecord {
+  return {
+    url,
+    latencyMs: null,
+    outcomes: [],
+    validatedLedger: null,
+    circuit: 'closed',
+    openedAt: null,
+    consecutiveFailures: 0,
+    lastCheckedAt: null,
+    lastError: null
+  };
+}
+
+let records: ServerRecord[] = getActiveNetwork().jsonRpcServers.map(createRecord);
+const listeners = new Set<PoolListener>();
+let probeTimer: ReturnType<typeof setInterval> | null = null;
+
+function errorRate(record: ServerRecord): number {
+  if (record.outcomes.length === 0) return 0;
+  return record.outcomes.filter(ok => !ok).length / record.outcomes.length;
+}
+
+function highestValidatedLedger(): number | null {
+  const ledgers = records
+    .map(record => record.validatedLedger)
+    .filter((ledger): ledger is number => ledger !== null);
+  return ledgers.length > 0 ? Math.max(...ledgers) : null;
+}
+
+function ledgerLag(record: ServerRecord): number | null {
+  const highest = highestValidatedLedger();
+  if (highest === null || record.validatedLedger === null) return null;
+  return highest - record.validatedLedger;
+}
+
+// Lower is better
+function score(record: ServerRecord): number {
+  const latency = record.latencyMs ?? UNKNOWN_LATENCY_MS;
+  const lag = ledgerLag(record) ?? 0;
+  return latency + errorRate(record) * ERROR_RATE_PENALTY + lag * LEDGER_LAG_PENALTY;
+}
+
+// Move open circuits whose cooldown has elapsed to half-open
+function refreshCircuits(): void {
+  const now = Date.now();
+  records.forEach(record => {
+    if (record.circuit === 'open' && record.openedAt !== null && now - record.openedAt >= CIRCUIT_COOLDOWN_MS) {
+      record.circuit = 'half-open';
+      console.log(`[ServerPool] ${record.url} circuit half-open, allowing a trial request`);
+    }
+  });
+}
+
+// Rebuild the immutable view handed to subscribers
+function buildSnapshot(): ServerHealth[] {
+  const highest = highestValidatedLedger();
+  return records.map(record => ({
+    url: record.url,
+    latencyMs: record.latencyMs,
+    errorRate: errorRate(record),
+    validatedLedger: record.validatedLedger,
+    ledgerLag: highest !== null && record.validatedLedger !== null ? highest - record.validatedLedger : null,
+    circuit: record.circuit,
+    consecutiveFailures: record.consecutiveFailures,
+    lastCheckedAt: record.lastCheckedAt,
+    lastError: record.lastError
+  }));
+}
+
+let snapshot: ServerHealth[] = buildSnapshot();
+
+function notify(): void {
+  snapshot = buildSnapshot();
+  listeners.forEach(listener => listener());
+}
+
+// Health data from one network says nothing about another's endpoints
+subscribeToNetwork(network => {
+  console.log(`[ServerPool] Network changed to ${network.name}, resetting pool`);
+  records = network.jsonRpcServers.map(createRecord);
+  notify();
+  if (probeTimer !== null) {
+    probeAllServers();
+  }
+});
+
+function findRecord(url: string): ServerRecord | undefined {
+  return records.find(record => record.url === url);
+}
+
+function pushOutcome(record: ServerRecord, ok: boolean): void {
+  record.outcomes.push(ok);
+  if (record.outcomes.length > OUTCOME_WINDOW) {
+    record.outcomes.shift();
+  }
+  record.lastCheckedAt = Date.now();
+}
+
+// Pick the server the next request should go to, skipping any in `exclude`.
+// Returns null only when every server is excluded.
+export function selectServer(exclude: ReadonlySet<string> = new Set()): string | null {
+  ensureProbing();
+  refreshCircuits();
+
+  const candidates = records.filter(record => !exclude.has(record.url));
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  const available = candidates.filter(record => record.circuit !== 'open');
+  if (available.length === 0) {
+    // Every circuit is open: try the one that has been resting longest
+    const oldest = [...candidates].sort((a, b) => (a.openedAt ?? 0) - (b.openedAt ?? 0))[0];
+    console.warn(`[ServerPool] All circuits open, falling back to ${oldest.url}`);
+    return oldest.url;
+  }
+
+  const best = [...available].sort((a, b) => score(a) - score(b))[0];
+  return best.url;
+}
+
+export function recordSuccess(url: string, latencyMs: number, validatedLedger?: number): void {
+  const record = findRecord(url);
+  if (!record) return;
+
+  record.latencyMs = record.latencyMs === null
+    ? latencyMs
+    : record.latencyMs * (1 - LATENCY_SMOOTHING) + latencyMs * LATENCY_SMOOTHING;
+  if (validatedLedger !== undefined && validatedLedger > (record.validatedLedger ?? 0)) {
+    record.validatedLedger = validatedLedger;
+  }
+  pushOutcome(record, true);
+  record.consecutiveFailures = 0;
+  record.lastError = null;
+
+  if (record.circuit !== 'closed') {
+    console.log(`[ServerPool] ✓ ${url} recovered, closing circuit`);
+    record.circuit = 'closed';
+    record.openedAt = null;
+  }
+  notify();
+}
+
+export function recordFailure(url: string, reason: string): void {
+  const record = findRecord(url);
+  if (!record) return;
+
+  pushOutcome(record, false);
+  record.consecutiveFailures++;
+  record.lastError = reason;
+
+  // A failed trial sends a half-open circuit straight back to open
+  if (record.circuit === 'half-open' || record.consecutiveFailures >= FAILURES_TO_OPEN) {
+    if (record.circuit !== 'open') {
+      console.warn(`[ServerPool] ✗ Opening circuit for ${url} after ${record.consecutiveFailures} failures: ${reason}`);
+    }
+    record.circuit = 'open';
+    record.openedAt = Date.now();
+  }
+  notify();
+}
+
+async function probeServer(record: ServerRecord): Promise<void> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+  const startTime = performance.now();
+
+  try {
+    const response = await fetch(record.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ method: 'server_info', params: [{}] }),
+      signal: controller.signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const data = await response.json();
+    const info = data.result?.info;
+    if (!info) {
+      throw new Error(data.result?.error_message || data.result?.error || 'Malformed server_info response');
+    }
+
+    // A server that is still syncing can answer but can't serve validated data
+    if (!info.validated_ledger) {
+      throw new Error(`Server not synced (state: ${info.server_state ?? 'unknown'})`);
+    }
+
+    recordSuccess(record.url, performance.now() - startTime, info.validated_ledger.seq);
+  } catch (error) {
+    const reason = controller.signal.aborted
+      ? `Probe timed out after ${PROBE_TIMEOUT_MS}ms`
+      : error instanceof Error ? error.message : String(error);
+    console.warn(`[ServerPool] Probe failed for ${record.url}: ${reason}`);
+    recordFailure(record.url, reason);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export async function probeAllServers(): Promise<void> {
+  refreshCircuits();
+  console.log(`[ServerPool] Probing ${records.length} servers`);
+  await Promise.all(records.map(probeServer));
+}
+
+function ensureProbing(): void {
+  if (probeTimer !== null || typeof window === 'undefined') return;
+
+  probeAllServers();
+  probeTimer = setInterval(() => {
+    // Don't spend the public servers' rate limits on a hidden tab
+    if (document.visibilityState === 'hidden') return;
+    probeAllServers();
+  }, PROBE_INTERVAL_MS);
+}
+
+export function getPoolSnapshot(): ServerHealth[] {
+  return snapshot;
+}
+
+export function subscribeToPool(listener: PoolListener): () => void {
+  ensureProbing();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -1,109 +1,86 @@
-import { validateXRPLAddress } from './xrpl';
+import { getActiveNetwork, networkStorageKey } from './networks';
+import { isValidClassicAddress, toAccountAddress, toClassicAddress, type ClassicAddress } from './addressCodec';
+import { Currency, currencyMatches } from './currency';
 
 export interface TokenConfig {
   currency: string;
-  issuer: string;
+  issuer: ClassicAddress;
   customName?: string;
 }
 
-const STORAGE_KEY = 'xrpl_token_config';
-
-// Helper function to convert hex-encoded currency codes to ASCII
-export function hexToString(hex: string): string {
-  // XRPL uses 160-bit (40 character) hex strings for non-standard currency codes
-  if (hex.length !== 40) {
-    return hex;
-  }
-  
-  try {
-    let str = '';
-    for (let i = 0; i < hex.length; i += 2) {
-      const charCode = parseInt(hex.substr(i, 2), 16);
-      if (charCode === 0) break; // Stop at null terminator
-      str += String.fromCharCode(charCode);
-    }
-    return str.trim() || hex;
-  } catch (e) {
-    console.error('[TokenConfig] Error decoding hex string:', e);
-    return hex;
-  }
+// Token details as entered by the user, before the issuer is verified
+export interface TokenConfigInput {
+  currency: string;
+  issuer: string;
+  customName?: string;
 }
 
-// Helper function to convert ASCII currency codes to hex (for non-standard codes)
-export function stringToHex(str: string): string {
-  // Standard 3-character codes don't need conversion
-  if (str.length === 3) {
-    return str;
-  }
-  
-  // Convert to hex and pad to 40 characters
-  let hex = '';
-  for (let i = 0; i < str.length; i++) {
-    hex += str.charCodeAt(i).toString(16).padStart(2, '0');
-  }
-  // Pad with zeros to make it 40 characters (160 bits)
-  return hex.padEnd(40, '0').toUpperCase();
-}
+const STORAGE_KEY = 'xrpl_token_config';
 
-// Default tokens to monitor - ALL 10 TOKENS
+// Default tokens to monitor on mainnet
 const DEFAULT_TOKENS: TokenConfig[] = [
   {
     currency: 'GreedyJEW',
-    issuer: 'rdRvw4pKmEtSnz3cjXBL6HLJJmejtkoQ4',
+    issuer: toClassicAddress('rdRvw4pKmEtSnz3cjXBL6HLJJmejtkoQ4'),
     customName: 'GreedyJEW Token'
   },
   {
     currency: 'JewNomicaN',
-    issuer: 'rEz5RdLqRex7YxYZ1bEskCDHbvKy3zcUnq',
+    issuer: toClassicAddress('rEz5RdLqRex7YxYZ1bEskCDHbvKy3zcUnq'),
     customName: 'JewNomicaN'
   },
   {
     currency: 'HEBROID',
-    issuer: 'rdRvw4pKmEtSnz3cjXBL6HLJJmejtkoQ4',
+    issuer: toClassicAddress('rdRvw4pKmEtSnz3cjXBL6HLJJmejtkoQ4'),
     customName: 'HEBROID'
   },
   {
     currency: 'ASC',
-    issuer: 'r3qWgpz2ry3BhcRJ8JE6rxM8esrfhuKp4R',
+    issuer: toClassicAddress('r3qWgpz2ry3BhcRJ8JE6rxM8esrfhuKp4R'),
     customName: 'Ascension'
   },
   {
     currency: 'RPR',
-    issuer: 'r3qWgpz2ry3BhcRJ8JE6rxM8esrfhuKp4R',
+    issuer: toClassicAddress('r3qWgpz2ry3BhcRJ8JE6rxM8esrfhuKp4R'),
     customName: 'Reaper'
   },
   {
     currency: 'PLR',
-    issuer: 'rNSYhWLhuHvmURwWbJPBKZMSPsyG5Qek17',
+    issuer: toClassicAddress('rNSYhWLhuHvmURwWbJPBKZMSPsyG5Qek17'),
     customName: 'Pylons'
   },
   {
     currency: 'ARK',
-    issuer: 'rf5Jzzy6oAFBJjLhokha1v8pXVgYYjee3b',
+    issuer: toClassicAddress('rf5Jzzy6oAFBJjLhokha1v8pXVgYYjee3b'),
     customName: 'Ark Institute'
   },
   {
     currency: 'Schmeckles',
-    issuer: 'rPxw83ZP6thv7KmG5DpAW4cDW55DZRZ9wu',
+    issuer: toClassicAddress('rPxw83ZP6thv7KmG5DpAW4cDW55DZRZ9wu'),
     customName: 'Schmeckles'
   },
   {
     currency: 'MKS',
-    issuer: 'rwU8xXxSQPzqX7DEfeSUdUjb5NB17ixkzJ',
+    issuer: toClassicAddress('rwU8xXxSQPzqX7DEfeSUdUjb5NB17ixkzJ'),
     customName: 'MKS'
   },
   {
     currency: 'TriForce',
-    issuer: 'rGeevxdLguXxvh7RmUmMEXr7DSRNTXPRpX',
+    issuer: toClassicAddress('rGeevxdLguXxvh7RmUmMEXr7DSRNTXPRpX'),
     customName: 'TriForce'
   },
   {
     currency: 'DeerChickenn',
-    issuer: 'rw3DPxgusRrvdsbXSjHdXD14ogkNidTTRx',
+    issuer: toClassicAddress('rw3DPxgusRrvdsbXSjHdXD14ogkNidTTRx'),
     customName: 'DeerChickenn'
   }
 ];
 
+// Test networks start with an empty whitelist; the mainnet issuers don't exist there
+function defaultTokensForNetwork(): TokenConfig[] {
+  return getActiveNetwork().id === 'mainnet' ? DEFAULT_TOKENS : [];
+}
+
 export function getWhitelistedTokens(): TokenConfig[] {
   const tokens = loadTokenConfig();
   console.log('[TokenConfig] getWhitelistedTokens() called');
@@ -114,65 +91,286 @@ export function getWhitelistedTokens(): TokenConfig[] {
   return tokens;
 }
 
-export function loadTokenConfig(): TokenConfig[] {
+// ---------------------------------------------------------------------------
+// Storage format
+// ---------------------------------------------------------------------------
+
+// Version 1 was a bare array of tokens. Version 2 wraps the tokens with the
+// defaults the user has deleted, so those stay deleted.
+const CURRENT_VERSION = 2;
+
+interface StoredTokenConfig {
+  version: typeof CURRENT_VERSION;
+  tokens: TokenConfig[];
+  // tokenId() of each default token the user removed
+  removedDefaults: string[];
+}
+
+function tokenId(token: { currency: string; issuer: string }): string {
+  return `${token.currency}:${token.issuer}`;
+}
+
+function isDefaultToken(id: string): boolean {
+  return defaultTokensForNetwork().some(token => tokenId(token) === id);
+}
+
+// Each migration takes the stored data at one version to the next
+const MIGRATIONS: Record<number, (data: unknown) => unknown> = {
+  // Version 1 had no record of deleted defaults, so every default missing
+  // from the saved list is treated as deleted rather than added back
+  1: (data) => {
+    // Entries are checked by sanitizeTokens afterwards; only the ids matter here
+    const tokens = Array.isArray(data) ? data : [];
+    const present = new Set(
+      tokens
+        .filter((entry): entry is TokenConfig =>
+          entry && typeof entry === 'object' && typeof entry.currency === 'string' && typeof entry.issuer === 'string')
+        .map(tokenId)
+    );
+    const removedDefaults = defaultTokensForNetwork().map(tokenId).filter(id => !present.has(id));
+    return { version: 2, tokens, removedDefaults };
+  }
+};
+
+function storedVersion(data: unknown): number | null {
+  if (Array.isArray(data)) {
+    return 1;
+  }
+  if (data && typeof data === 'object' && Number.isInteger((data as { version?: unknown }).version)) {
+    return (data as { version: number }).version;
+  }
+  return null;
+}
+
+function migrate(data: unknown, fromVersion: number): unknown {
+  let migrated = data;
+  for (let version = fromVersion; version < CURRENT_VERSION; version++) {
+    console.log(`[TokenConfig] Migrating stored config from version ${version} to ${version + 1}`);
+    migrated = MIGRATIONS[version](migrated);
+  }
+  return migrated;
+}
+
+// Keep the entries that are still usable tokens, dropping anything malformed
+function sanitizeTokens(raw: unknown): { tokens: TokenConfig[]; dropped: number } {
+  if (!Array.isArray(raw)) {
+    return { tokens: [], dropped: 0 };
+  }
+  const tokens: TokenConfig[] = [];
+  for (const entry of raw) {
+    if (
+      entry && typeof entry === 'object' &&
+      typeof entry.currency === 'string' && !Currency.validate(entry.currency) &&
+      typeof entry.issuer === 'string' && isValidClassicAddress(entry.issuer) &&
+      !tokens.some(token => tokenId(token) === tokenId(entry))
+    ) {
+      tokens.push({
+        currency: entry.currency,
+        issuer: entry.issuer,
+        ...(typeof entry.customName === 'string' ? { customName: entry.customName } : {})
+      });
+    }
+  }
+  return { tokens, dropped: raw.length - tokens.length };
+}
+
+// Warnings about recovered or migrated config, waiting to be shown to the user
+const pendingWarnings = new Set<string>();
+
+function warn(message: string): void {
+  console.warn(`[TokenConfig] ${message}`);
+  pendingWarnings.add(message);
+}
+
+// Warnings raised while loading the config since the last call
+export function takeTokenConfigWarnings(): string[] {
+  const warnings = [...pendingWarnings];
+  pendingWarnings.clear();
+  return warnings;
+}
+
+// Writing would replace a config saved by a newer build with our older
+// format, silently losing whatever that version added
+function assertNotNewerVersion(key: string): void {
+  let version: number | null = null;
   try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (!stored) {
-      console.log('[TokenConfig] No stored config found, using DEFAULT_TOKENS');
-      console.log('[TokenConfig] Default tokens count:', DEFAULT_TOKENS.length);
-      // Initialize with defaults on first load
-      saveTokenConfig(DEFAULT_TOKENS);
-      return DEFAULT_TOKENS;
+    version = storedVersion(JSON.parse(localStorage.getItem(key) ?? 'null'));
+  } catch {
+    // Unreadable data is backed up when it's loaded, so it's safe to replace
+  }
+  if (version !== null && version > CURRENT_VERSION) {
+    throw new Error(`The saved token list is from a newer version (${version}) of this app and can't be changed here. Update the app to edit it.`);
+  }
+}
+
+function writeStoredConfig(config: StoredTokenConfig): void {
+  const key = networkStorageKey(STORAGE_KEY);
+  assertNotNewerVersion(key);
+  try {
+    localStorage.setItem(key, JSON.stringify(config));
+    console.log('[TokenConfig] Saved', config.tokens.length, 'tokens to localStorage');
+  } catch (error) {
+    console.error('[TokenConfig] Error saving config:', error);
+    throw new Error('Failed to save token configuration');
+  }
+}
+
+// Copy unreadable data aside before it's replaced. Storage can be full or
+// denied, which shouldn't stop the recovery itself.
+function backupStoredConfig(key: string, stored: string): boolean {
+  try {
+    localStorage.setItem(`${key}_backup`, stored);
+    return true;
+  } catch (error) {
+    console.error('[TokenConfig] Error backing up unreadable config:', error);
+    return false;
+  }
+}
+
+// Parse, migrate and repair whatever is stored, writing back any changes.
+// Data that can't be read at all is kept under a backup key rather than lost.
+function readStoredConfig(): StoredTokenConfig {
+  const key = networkStorageKey(STORAGE_KEY);
+  const stored = localStorage.getItem(key);
+  if (!stored) {
+    const defaults = defaultTokensForNetwork();
+    console.log(`[TokenConfig] No stored config found for ${getActiveNetwork().name}, using defaults`);
+    console.log('[TokenConfig] Default tokens count:', defaults.length);
+    // Initialize with defaults on first load
+    const config: StoredTokenConfig = { version: CURRENT_VERSION, tokens: defaults, removedDefaults: [] };
+    writeStoredConfig(config);
+    return config;
+  }
+
+  let data: unknown;
+  let version: number | null = null;
+  try {
+    data = JSON.parse(stored);
+    version = storedVersion(data);
+  } catch (error) {
+    console.error('[TokenConfig] Stored config is not valid JSON:', error);
+  }
+
+  if (version === null) {
+    // Unversioned JSON may still hold usable tokens; keep those over the defaults
+    const salvaged = data && typeof data === 'object'
+      ? sanitizeTokens((data as { tokens?: unknown }).tokens).tokens
+      : [];
+    const backedUp = backupStoredConfig(key, stored);
+    const kept = backedUp
+      ? `The old data was kept under "${key}_backup".`
+      : 'The old data could not be backed up.';
+    warn(salvaged.length > 0
+      ? `The saved token list was partly unreadable; ${salvaged.length} ${salvaged.length === 1 ? 'token was' : 'tokens were'} recovered. ${kept}`
+      : `The saved token list could not be read and was reset to the defaults. ${kept}`);
+    // As with version 1 lists, defaults missing from a salvaged list stay deleted
+    const present = new Set(salvaged.map(tokenId));
+    const config: StoredTokenConfig = salvaged.length > 0
+      ? {
+        version: CURRENT_VERSION,
+        tokens: salvaged,
+        removedDefaults: defaultTokensForNetwork().map(tokenId).filter(id => !present.has(id))
+      }
+      : { version: CURRENT_VERSION, tokens: defaultTokensForNetwork(), removedDefaults: [] };
+    try {
+      writeStoredConfig(config);
+    } catch {
+      // Still usable for this session; the next load recovers it again
     }
-    const parsed = JSON.parse(stored);
-    console.log('[TokenConfig] Loaded config from localStorage');
-    console.log('[TokenConfig] Stored tokens count:', parsed.length);
-    
-    // If stored config has fewer tokens than DEFAULT_TOKENS, merge them
-    if (parsed.length < DEFAULT_TOKENS.length) {
-      console.log('[TokenConfig] Stored config has fewer tokens, merging with defaults...');
-      const merged = [...parsed];
-      
-      DEFAULT_TOKENS.forEach(defaultToken => {
-        const exists = merged.some(
-          t => t.currency === defaultToken.currency && t.issuer === defaultToken.issuer
-        );
-        if (!exists) {
-          console.log(`[TokenConfig] Adding missing token: ${defaultToken.currency}`);
-          merged.push(defaultToken);
-        }
-      });
-      
-      console.log('[TokenConfig] Merged config now has', merged.length, 'tokens');
-      saveTokenConfig(merged);
-      return merged;
+    return config;
+  }
+
+  if (version > CURRENT_VERSION) {
+    // Saved by a newer build; read what we understand, and writes are refused
+    // until the app is updated (see assertNotNewerVersion)
+    warn(`The saved token list is from a newer version (${version}) of this app; some settings may be ignored and it can't be edited.`);
+    const { tokens } = sanitizeTokens((data as { tokens?: unknown }).tokens);
+    return { version: CURRENT_VERSION, tokens, removedDefaults: [] };
+  }
+
+  let changed = version < CURRENT_VERSION;
+  const current = migrate(data, version) as Partial<StoredTokenConfig>;
+  const { tokens, dropped } = sanitizeTokens(current.tokens);
+  if (dropped > 0 || !Array.isArray(current.tokens)) {
+    warn(`Recovered the saved token list: ${dropped} invalid ${dropped === 1 ? 'entry was' : 'entries were'} removed.`);
+    changed = true;
+  }
+  const removedDefaults = Array.isArray(current.removedDefaults)
+    ? current.removedDefaults.filter((id): id is string => typeof id === 'string')
+    : [];
+
+  // Defaults shipped since the list was saved, unless the user removed them
+  const present = new Set(tokens.map(tokenId));
+  for (const defaultToken of defaultTokensForNetwork()) {
+    const id = tokenId(defaultToken);
+    if (!present.has(id) && !removedDefaults.includes(id)) {
+      console.log(`[TokenConfig] Adding missing default token: ${defaultToken.currency}`);
+      tokens.push(defaultToken);
+      changed = true;
     }
-    
-    return parsed;
+  }
+
+  const config: StoredTokenConfig = { version: CURRENT_VERSION, tokens, removedDefaults };
+  console.log('[TokenConfig] Loaded config from localStorage');
+  console.log('[TokenConfig] Stored tokens count:', tokens.length);
+  if (changed) {
+    writeStoredConfig(config);
+  }
+  return config;
+}
+
+export function loadTokenConfig(): TokenConfig[] {
+  try {
+    return readStoredConfig().tokens;
   } catch (error) {
     console.error('[TokenConfig] Error loading config:', error);
-    console.log('[TokenConfig] Falling back to DEFAULT_TOKENS');
-    return DEFAULT_TOKENS;
+    console.log('[TokenConfig] Falling back to default tokens');
+    return defaultTokensForNetwork();
   }
 }
 
+// Replace the whole list. Defaults left out of it are recorded as deleted,
+// just as removeToken would.
 export function saveTokenConfig(tokens: TokenConfig[]): void {
+  const previous = readStoredConfig();
+  const kept = new Set(tokens.map(tokenId));
+  const dropped = previous.tokens.map(tokenId).filter(id => isDefaultToken(id) && !kept.has(id));
+  saveTokens(tokens, [...previous.removedDefaults, ...dropped]);
+}
+
+// Save the token list, recording which defaults are no longer in it
+function saveTokens(tokens: TokenConfig[], removedDefaults: string[]): void {
+  const present = new Set(tokens.map(tokenId));
+  writeStoredConfig({
+    version: CURRENT_VERSION,
+    tokens,
+    removedDefaults: [...new Set(removedDefaults)].filter(id => !present.has(id))
+  });
+}
+
+// Verify the currency code and issuer checksum, and resolve X-addresses to
+// their classic form
+function normalizeTokenInput(input: TokenConfigInput): TokenConfig {
+  const currencyError = Currency.validate(input.currency);
+  if (currencyError) {
+    throw new Error(`Invalid currency code: ${currencyError}`);
+  }
+
+  let issuer: ClassicAddress;
   try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(tokens));
-    console.log('[TokenConfig] Saved', tokens.length, 'tokens to localStorage');
+    issuer = toAccountAddress(input.issuer, !getActiveNetwork().isProduction);
   } catch (error) {
-    console.error('[TokenConfig] Error saving config:', error);
-    throw new Error('Failed to save token configuration');
+    const detail = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid issuer address: ${detail}`);
   }
+  return { ...input, currency: input.currency.trim(), issuer };
 }
 
-export function addToken(token: TokenConfig): void {
-  const tokens = loadTokenConfig();
+export function addToken(input: TokenConfigInput): void {
+  const { tokens, removedDefaults } = readStoredConfig();
   
   // Validate issuer address
-  if (!validateXRPLAddress(token.issuer)) {
-    throw new Error('Invalid XRPL address format. Address must start with "r" and be 25-35 characters long.');
-  }
+  const token = normalizeTokenInput(input);
   
   // Check for duplicates
   const exists = tokens.some(
@@ -183,29 +381,30 @@ export function addToken(token: TokenConfig): void {
     throw new Error('This token is already in your monitoring list');
   }
   
+  // Re-adding a deleted default clears its tombstone
   tokens.push(token);
-  saveTokenConfig(tokens);
+  saveTokens(tokens, removedDefaults);
 }
 
 export function removeToken(currency: string, issuer: string): void {
-  const tokens = loadTokenConfig();
+  const { tokens, removedDefaults } = readStoredConfig();
   const filtered = tokens.filter(
     t => !(t.currency === currency && t.issuer === issuer)
   );
-  saveTokenConfig(filtered);
+  // Deleted defaults get a tombstone so they aren't added back on the next load
+  const id = tokenId({ currency, issuer });
+  saveTokens(filtered, isDefaultToken(id) ? [...removedDefaults, id] : removedDefaults);
 }
 
 export function updateToken(
   oldCurrency: string,
   oldIssuer: string,
-  newToken: TokenConfig
+  input: TokenConfigInput
 ): void {
   // Validate new issuer address
-  if (!validateXRPLAddress(newToken.issuer)) {
-    throw new Error('Invalid XRPL address format. Address must start with "r" and be 25-35 characters long.');
-  }
+  const newToken = normalizeTokenInput(input);
   
-  const tokens = loadTokenConfig();
+  const { tokens, removedDefaults } = readStoredConfig();
   const index = tokens.findIndex(
     t => t.currency === oldCurrency && t.issuer === oldIssuer
   );
@@ -223,56 +422,33 @@ export function updateToken(
     throw new Error('A token with this currency and issuer already exists');
   }
   
+  // Editing a default away from its currency or issuer counts as deleting it
+  const oldId = tokenId(tokens[index]);
   tokens[index] = newToken;
-  saveTokenConfig(tokens);
+  saveTokens(tokens, isDefaultToken(oldId) ? [...removedDefaults, oldId] : removedDefaults);
 }
 
 export function isTokenWhitelisted(currency: string, issuer: string): boolean {
   const tokens = loadTokenConfig();
-  
-  // Normalize inputs for comparison
-  const normalizedIssuer = issuer.toLowerCase().trim();
-  
-  // Check if currency is a hex-encoded string (40 characters, all hex)
-  const isHexCurrency = currency.length === 40 && /^[0-9A-F]{40}$/i.test(currency);
+  const ledgerCurrency = Currency.fromLedger(currency);
   
   console.log('[TokenConfig] isTokenWhitelisted() checking:', {
     currency,
-    isHex: isHexCurrency,
-    issuer: normalizedIssuer
+    kind: ledgerCurrency.kind,
+    display: ledgerCurrency.display(),
+    issuer
   });
   
   // Try to match against whitelist
   const matched = tokens.some(t => {
-    const normalizedWhitelistIssuer = t.issuer.toLowerCase().trim();
-    
     // First check if issuers match
-    if (normalizedWhitelistIssuer !== normalizedIssuer) {
+    if (t.issuer !== issuer) {
       return false;
     }
     
-    // If currency from XRPL is hex-encoded, try to decode it
-    if (isHexCurrency) {
-      const decodedCurrency = hexToString(currency);
-      const currencyMatch = 
-        decodedCurrency.toLowerCase() === t.currency.toLowerCase() ||
-        currency.toLowerCase() === stringToHex(t.currency).toLowerCase();
-      
-      console.log('[TokenConfig]   Comparing hex currency:', {
-        xrplHex: currency,
-        decoded: decodedCurrency,
-        whitelistCurrency: t.currency,
-        whitelistHex: stringToHex(t.currency),
-        match: currencyMatch
-      });
-      
-      return currencyMatch;
-    }
-    
-    // Standard currency code comparison (case-insensitive)
-    const currencyMatch = currency.toLowerCase() === t.currency.toLowerCase();
+    const currencyMatch = currencyMatches(currency, t.currency);
     
-    console.log('[TokenConfig]   Comparing standard currency:', {
+    console.log('[TokenConfig]   Comparing currency:', {
       xrplCurrency: currency,
       whitelistCurrency: t.currency,
       match: currencyMatch
@@ -0,0 +1,80 @@
+// Supply figures for one issued token, from the issuer's gateway_balances.
+// Obligations exclude whatever the hot wallets passed to the request hold,
+// so total supply adds those back.
+import type { GatewayBalance, GatewayBalances } from './xrpl';
+import { IOUValue } from './amount';
+import { isSameCurrency } from './currency';
+import { walletRole, type MonitoredWallet } from './wallets';
+
+export interface IssuerAsset {
+  issuer: string;
+  currency: string;
+  value: string;
+}
+
+export interface TokenSupply {
+  total: IOUValue;
+  hot: IOUValue;
+  operational: IOUValue;
+  // Total minus what the issuer's own hot and operational wallets hold
+  circulating: IOUValue;
+  frozen: IOUValue;
+  // Tokens from other issuers held by this token's issuer
+  assets: IssuerAsset[];
+  ledgerIndex: number;
+}
+
+// Monitored wallets to exclude from circulating supply
+export function issuerWallets(wallets: MonitoredWallet[], issuer: string): MonitoredWallet[] {
+  return wallets.filter(wallet => {
+    const role = walletRole(wallet);
+    return wallet.address !== issuer && (role === 'hot' || role === 'operational');
+  });
+}
+
+function sumCurrency(balances: GatewayBalance[] | undefined, currency: string): IOUValue {
+  return IOUValue.sum(
+    (balances ?? [])
+      .filter(balance => isSameCurrency(balance.currency, currency))
+      .map(balance => IOUValue.parse(balance.value))
+  );
+}
+
+export function computeTokenSupply(
+  gateway: GatewayBalances,
+  currency: string,
+  wallets: MonitoredWallet[]
+): TokenSupply {
+  const obligation = Object.entries(gateway.obligations).find(([code]) => isSameCurrency(code, currency));
+  const outstanding = obligation ? IOUValue.parse(obligation[1]) : IOUValue.ZERO;
+
+  let hot = IOUValue.ZERO;
+  let operational = IOUValue.ZERO;
+  issuerWallets(wallets, gateway.account).forEach(wallet => {
+    const held = sumCurrency(gateway.balances[wallet.address], currency);
+    if (walletRole(wallet) === 'hot') {
+      hot = hot.add(held);
+    } else {
+      operational = operational.add(held);
+    }
+  });
+
+  const frozen = IOUValue.sum(
+    Object.values(gateway.frozenBalances).map(balances => sumCurrency(balances, currency))
+  );
+
+  const assets = Object.entries(gateway.assets).flatMap(([issuer, balances]) =>
+    balances.map(balance => ({ issuer, currency: balance.currency, value: balance.value }))
+  );
+
+  const total = outstanding.add(hot).add(operational);
+  return {
+    total,
+    hot,
+    operational,
+    circulating: outstanding,
+    frozen,
+    assets,
+    ledgerIndex: gateway.ledgerIndex
+  };
+}
@@ -0,0 +1,133 @@
+// Turns raw account_tx entries into what the transaction history shows: a
+// readable type, the amount that actually moved, who the other side was and
+// whether it succeeded.
+import type { AccountTransaction } from './xrpl';
+import { isIssuedAmount, ledgerAmountCurrency, type LedgerAmount } from './amount';
+
+// Seconds between the Unix epoch and the XRPL epoch (2000-01-01T00:00:00Z)
+export const RIPPLE_EPOCH_OFFSET = 946_684_800;
+
+export function rippleTimeToDate(rippleTime: number): Date {
+  return new Date((rippleTime + RIPPLE_EPOCH_OFFSET) * 1000);
+}
+
+// 'affected' covers transactions that touch the account without being sent to
+// it: payments rippling through an issuer, crossed offers, trust lines set
+// toward it and the like
+export type TransactionDirection = 'incoming' | 'outgoing' | 'affected';
+
+export interface DecodedTransaction {
+  hash: string;
+  type: string;
+  typeLabel: string;
+  direction: TransactionDirection;
+  // The other account involved, if the transaction has one
+  counterparty: string | null;
+  // What was actually delivered, which for partial payments can be less than Amount
+  deliveredAmount: LedgerAmount | null;
+  // Display codes of every currency the transaction touches, for filtering
+  currencies: string[];
+  result: string;
+  succeeded: boolean;
+  date: Date | null;
+  ledgerIndex: number;
+  fee: string | null;
+}
+
+// Labels for types whose names don't split cleanly on capitals
+const TYPE_LABELS: Record<string, string> = {
+  AMMCreate: 'AMM Create',
+  AMMDeposit: 'AMM Deposit',
+  AMMWithdraw: 'AMM Withdraw',
+  AMMVote: 'AMM Vote',
+  AMMBid: 'AMM Bid',
+  AMMDelete: 'AMM Delete',
+  NFTokenMint: 'NFT Mint',
+  NFTokenBurn: 'NFT Burn',
+  NFTokenCreateOffer: 'NFT Create Offer',
+  NFTokenCancelOffer: 'NFT Cancel Offer',
+  NFTokenAcceptOffer: 'NFT Accept Offer',
+  DIDSet: 'DID Set',
+  DIDDelete: 'DID Delete',
+  XChainCommit: 'Cross-chain Commit',
+  XChainClaim: 'Cross-chain Claim'
+};
+
+export function transactionTypeLabel(type: string): string {
+  return TYPE_LABELS[type] ?? type.replace(/([a-z])([A-Z])/g, '$1 $2');
+}
+
+// Fields that name the other party, in the order they're checked
+const COUNTERPARTY_FIELDS = ['Destination', 'Owner', 'Authorize', 'Unauthorize', 'RegularKey', 'Issuer'];
+
+function findCounterparty(tx: AccountTransaction['tx'], viewer: string): string | null {
+  if (tx.Account !== viewer) {
+    return tx.Account;
+  }
+  for (const field of COUNTERPARTY_FIELDS) {
+    if (typeof tx[field] === 'string' && tx[field] !== viewer) {
+      return tx[field];
+    }
+  }
+  // Trust lines point at the issuer through the limit amount
+  if (tx.LimitAmount && isIssuedAmount(tx.LimitAmount)) {
+    return tx.LimitAmount.issuer;
+  }
+  return null;
+}
+
+const AMOUNT_FIELDS = ['Amount', 'SendMax', 'DeliverMin', 'LimitAmount', 'TakerGets', 'TakerPays', 'Amount2'];
+
+function collectCurrencies(tx: AccountTransaction['tx'], delivered: LedgerAmount | null): string[] {
+  const amounts: LedgerAmount[] = AMOUNT_FIELDS
+    .map(field => tx[field])
+    .filter((amount): amount is LedgerAmount => typeof amount === 'string' || (amount && typeof amount === 'object' && 'currency' in amount));
+  if (delivered) {
+    amounts.push(delivered);
+  }
+  return [...new Set(amounts.map(ledgerAmountCurrency))];
+}
+
+function transactionDirection(tx: AccountTransaction['tx'], viewer: string): TransactionDirection {
+  if (tx.Account === viewer) return 'outgoing';
+  if (tx.Destination === viewer) return 'incoming';
+  return 'affected';
+}
+
+export function decodeTransaction(entry: AccountTransaction, viewer: string): DecodedTransaction {
+  const { tx, meta } = entry;
+  // 'unavailable' marks payments from before delivered_amount was tracked
+  const delivered = meta.delivered_amount ?? meta.DeliveredAmount;
+  const deliveredAmount: LedgerAmount | null = delivered && delivered !== 'unavailable' ? delivered : null;
+
+  return {
+    hash: tx.hash,
+    type: tx.TransactionType,
+    typeLabel: transactionTypeLabel(tx.TransactionType),
+    direction: transactionDirection(tx, viewer),
+    counterparty: findCounterparty(tx, viewer),
+    deliveredAmount,
+    currencies: collectCurrencies(tx, deliveredAmount),
+    result: meta.TransactionResult,
+    succeeded: meta.TransactionResult === 'tesSUCCESS',
+    date: typeof tx.date === 'number' ? rippleTimeToDate(tx.date) : null,
+    ledgerIndex: entry.ledger_index,
+    fee: tx.Fee ?? null
+  };
+}
+
+export interface TransactionFilters {
+  type: string | null;
+  currency: string | null;
+  // Inclusive bounds; null leaves that side open
+  from: Date | null;
+  to: Date | null;
+}
+
+export function matchesTransactionFilters(tx: DecodedTransaction, filters: TransactionFilters): boolean {
+  if (filters.type && tx.type !== filters.type) return false;
+  if (filters.currency && !tx.currencies.includes(filters.currency)) return false;
+  if (filters.from && (!tx.date || tx.date < filters.from)) return false;
+  if (filters.to && (!tx.date || tx.date > filters.to)) return false;
+  return true;
+}
@@ -0,0 +1,73 @@
+// Status of a trust line as account_lines reports it: freezes, authorization,
+// rippling and the quality (exchange rate) each side applies.
+import type { TrustLine } from './xrpl';
+import { IOUValue } from './amount';
+
+// Qualities are in billionths; 0 and 1e9 both mean face value
+const QUALITY_ONE = 1_000_000_000;
+
+export type TrustLineRole = 'holder' | 'issuer';
+
+export interface TrustLineStatus {
+  role: TrustLineRole;
+  // Frozen by this account, by the peer, or both
+  frozen: boolean;
+  frozenBy: 'self' | 'peer' | 'both' | null;
+  // Authorization only matters when the issuer has RequireAuth set
+  authorizedByPeer: boolean;
+  authorizedBySelf: boolean;
+  rippling: boolean;
+  // Percentages; null when the line uses face value
+  qualityIn: number | null;
+  qualityOut: number | null;
+  // Explains why this side's rippling setting looks wrong, if it does
+  ripplingWarning: string | null;
+}
+
+export function qualityPercent(quality: number | undefined): number | null {
+  if (!quality || quality === QUALITY_ONE) {
+    return null;
+  }
+  return (quality / QUALITY_ONE) * 100;
+}
+
+// Whether this account issues on the line: it owes the peer and trusts nothing back
+export function trustLineRole(line: TrustLine): TrustLineRole {
+  const balance = IOUValue.parse(line.balance);
+  const limit = IOUValue.parse(line.limit);
+  return balance.isNegative() || (limit.isZero() && !IOUValue.parse(line.limit_peer).isZero())
+    ? 'issuer'
+    : 'holder';
+}
+
+export function trustLineStatus(line: TrustLine): TrustLineStatus {
+  const role = trustLineRole(line);
+  const rippling = !line.no_ripple;
+  const frozenBy = line.freeze && line.freeze_peer
+    ? 'both'
+    : line.freeze ? 'self' : line.freeze_peer ? 'peer' : null;
+
+  let ripplingWarning: string | null = null;
+  if (role === 'holder' && rippling) {
+    // A holder's balance can then be moved through it by other people's payments
+    ripplingWarning = 'Rippling is enabled on a holder line, so payments between other accounts can shift this balance';
+  } else if (role === 'issuer' && !rippling) {
+    ripplingWarning = 'Rippling is disabled on an issuer line, so the holder on the other side cannot pass the token on to other holders';
+  }
+
+  return {
+    role,
+    frozen: frozenBy !== null,
+    frozenBy,
+    authorizedByPeer: line.peer_authorized === true,
+    authorizedBySelf: line.authorized === true,
+    rippling,
+    qualityIn: qualityPercent(line.quality_in),
+    qualityOut: qualityPercent(line.quality_out),
+    ripplingWarning
+  };
+}
+
+export function formatQuality(percent: number): string {
+  return `${percent.toLocaleString(undefined, { maximumFractionDigits: 4 })}%`;
+}
@@ -0,0 +1,155 @@
+import { getActiveNetwork, networkStorageKey, type NetworkId } from './networks';
+import { isValidClassicAddress, toAccountAddress, toClassicAddress, type ClassicAddress } from './addressCodec';
+
+// What a wallet does for the project. Hot and operational wallets are
+// excluded from circulating supply.
+export type WalletRole = 'issuer' | 'hot' | 'operational' | 'other';
+
+export const WALLET_ROLE_LABELS: Record<WalletRole, string> = {
+  issuer: 'Issuer',
+  hot: 'Hot wallet',
+  operational: 'Operational',
+  other: 'Other'
+};
+
+export interface MonitoredWallet {
+  address: ClassicAddress;
+  name: string;
+  // Missing for wallets saved before roles existed
+  role?: WalletRole;
+}
+
+// Wallet details as entered by the user, before the address is verified
+export interface MonitoredWalletInput {
+  address: string;
+  name: string;
+  role?: WalletRole;
+}
+
+const STORAGE_KEY = 'xrpl_monitored_wallets';
+
+// Wallets monitored out of the box. Test networks start empty because
+// mainnet accounts don't exist there.
+const DEFAULT_WALLETS: Partial<Record<NetworkId, MonitoredWallet[]>> = {
+  mainnet: [
+    { address: toClassicAddress('rdRvw4pKmEtSnz3cjXBL6HLJJmejtkoQ4'), name: 'GreedyJEW Issuer', role: 'issuer' },
+    { address: toClassicAddress('rw3DPxgusRrvdsbXSjHdXD14ogkNidTTRx'), name: 'Project Dev Wallet' }
+  ]
+};
+
+function defaultWallets(): MonitoredWallet[] {
+  return DEFAULT_WALLETS[getActiveNetwork().id] ?? [];
+}
+
+function isWalletRole(role: unknown): role is WalletRole {
+  return typeof role === 'string' && Object.hasOwn(WALLET_ROLE_LABELS, role);
+}
+
+// Keep the stored entries that are usable wallets, so a corrupted entry never
+// reaches an XRPL request
+function sanitizeWallets(raw: unknown): MonitoredWallet[] {
+  if (!Array.isArray(raw)) {
+    console.warn('[Wallets] Stored wallets are not a list, using defaults');
+    return defaultWallets();
+  }
+  const wallets: MonitoredWallet[] = [];
+  for (const entry of raw) {
+    if (
+      entry && typeof entry === 'object' &&
+      typeof entry.address === 'string' && isValidClassicAddress(entry.address) &&
+      typeof entry.name === 'string' &&
+      (entry.role === undefined || isWalletRole(entry.role)) &&
+      !wallets.some(wallet => wallet.address === entry.address)
+    ) {
+      wallets.push({ address: entry.address, name: entry.name, ...(entry.role ? { role: entry.role } : {}) });
+    } else {
+      console.warn('[Wallets] Ignoring invalid stored wallet:', entry);
+    }
+  }
+  return wallets;
+}
+
+interface ParsedWallets {
+  key: string;
+  stored: string | null;
+  wallets: MonitoredWallet[];
+  // Address to name, for wallets that have one
+  labels: Map<string, string>;
+}
+
+// The last list parsed, reused until the stored string or network changes.
+// Labels are looked up once per table row, so re-parsing each time adds up.
+let parsed: ParsedWallets | null = null;
+
+function readWallets(): ParsedWallets {
+  const key = networkStorageKey(STORAGE_KEY);
+  let stored: string | null = null;
+  try {
+    stored = localStorage.getItem(key);
+  } catch (error) {
+    console.error('[Wallets] Error reading monitored wallets:', error);
+  }
+  if (parsed && parsed.key === key && parsed.stored === stored) {
+    return parsed;
+  }
+
+  let wallets: MonitoredWallet[];
+  try {
+    wallets = stored ? sanitizeWallets(JSON.parse(stored)) : defaultWallets();
+  } catch (error) {
+    console.error('[Wallets] Error loading monitored wallets:', error);
+    wallets = defaultWallets();
+  }
+  const labels = new Map(wallets.filter(w => w.name).map(w => [w.address as string, w.name]));
+  parsed = { key, stored, wallets, labels };
+  return parsed;
+}
+
+export function loadMonitoredWallets(): MonitoredWallet[] {
+  // Callers may edit the list they get back
+  return [...readWallets().wallets];
+}
+
+export function saveMonitoredWallets(wallets: MonitoredWallet[]): void {
+  try {
+    localStorage.setItem(networkStorageKey(STORAGE_KEY), JSON.stringify(wallets));
+    console.log('[Wallets] Saved', wallets.length, 'wallets for', getActiveNetwork().name);
+  } catch (error) {
+    console.error('[Wallets] Error saving monitored wallets:', error);
+    throw new Error('Failed to save wallet configuration');
+  }
+}
+
+export function addMonitoredWallet(input: MonitoredWalletInput): void {
+  let address: ClassicAddress;
+  try {
+    address = toAccountAddress(input.address, !getActiveNetwork().isProduction);
+  } catch (error) {
+    const detail = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid wallet address: ${detail}`);
+  }
+  const wallet: MonitoredWallet = { address, name: input.name, role: input.role ?? 'other' };
+
+  const wallets = loadMonitoredWallets();
+  if (wallets.some(w => w.address === wallet.address)) {
+    throw new Error('This wallet is already being monitored');
+  }
+
+  saveMonitoredWallets([...wallets, wallet]);
+}
+
+export function setWalletRole(address: string, role: WalletRole): void {
+  saveMonitoredWallets(loadMonitoredWallets().map(w => (w.address === address ? { ...w, role } : w)));
+}
+
+export function walletRole(wallet: MonitoredWallet): WalletRole {
+  return wallet.role ?? 'other';
+}
+
+export function removeMonitoredWallet(address: string): void {
+  saveMonitoredWallets(loadMonitoredWallets().filter(w => w.address !== address));
+}
+
+export function getWalletLabel(address: string): string {
+  return readWallets().labels.get(address) ?? address;
+}
@@ -1,11 +1,24 @@
-// Use reliable public XRPL server with fallback options
-const XRPL_SERVERS = [
-  'https://xrplcluster.com',
-  'https://s1.ripple.com:51234',
-  'https://s2.ripple.com:51234'
-];
+import { selectServer, recordSuccess, recordFailure } from './serverPool';
+import { isValidClassicAddress, toClassicAddress, type ClassicAddress } from './addressCodec';
+import { cachedRequest } from './requestCache';
+import type { IssuedAmount, LedgerAmount } from './amount';
+import type { AccountObjectType, LedgerObject } from './ledgerObjects';
+import { abortableDelay, abortError, isAbortError, scheduleRequest, throwIfAborted, type RequestPriority } from './scheduler';
+import {
+  SERVER_FAULT_CODES,
+  XRPLApiError,
+  XRPLHttpError,
+  XRPLNetworkError,
+  XRPLNoServerError,
+  XRPLRateLimitError,
+  XRPLResponseError,
+  XRPLTimeoutError,
+  XRPLValidationError,
+  hasErrorCode,
+  isRetryableError
+} from './xrplErrors';
 
-let currentServerIndex = 0;
+const DEFAULT_REQUEST_TIMEOUT_MS = 15_000;
 
 export interface AccountInfo {
   Account: string;
@@ -15,6 +28,24 @@ export interface AccountInfo {
   Sequence: number;
   PreviousTxnID?: string;
   PreviousTxnLgrSeq?: number;
+  // Hex-encoded, usually an ASCII domain name
+  Domain?: string;
+  // Billionths; 1000000000 (or absent) means no transfer fee
+  TransferRate?: number;
+  TickSize?: number;
+  RegularKey?: string;
+  EmailHash?: string;
+  signer_lists?: SignerList[];
+}
+
+export interface SignerEntry {
+  Account: string;
+  SignerWeight: number;
+}
+
+export interface SignerList {
+  SignerQuorum: number;
+  SignerEntries: { SignerEntry: SignerEntry }[];
 }
 
 export interface TrustLine {
@@ -25,6 +56,24 @@ export interface TrustLine {
   limit_peer: string;
   quality_in: number;
   quality_out: number;
+  // The flags below are only present when set. The plain form is this
+  // account's side of the line, the _peer form the issuer's side.
+  no_ripple?: boolean;
+  no_ripple_peer?: boolean;
+  authorized?: boolean;
+  peer_authorized?: boolean;
+  freeze?: boolean;
+  freeze_peer?: boolean;
+}
+
+export interface RequestOptions {
+  // Cancels the request, including any retries still waiting to run
+  signal?: AbortSignal;
+  priority?: RequestPriority;
+  // Per-attempt limit; a timed-out attempt counts as a retryable failure
+  timeoutMs?: number;
+  // Servers not to send the request to, e.g. ones missing a pinned ledger
+  excludeServers?: ReadonlySet<string>;
 }
 
 export interface NFToken {
@@ -36,30 +85,53 @@ export interface NFToken {
   nft_serial: number;
 }
 
-// Validate XRPL address format
-export function validateXRPLAddress(address: string): boolean {
-  const xrplAddressRegex = /^r[1-9A-HJ-NP-Za-km-z]{24,34}$/;
-  return xrplAddressRegex.test(address);
+// Validate XRPL address format, including the base58check checksum
+export function validateXRPLAddress(address: string): address is ClassicAddress {
+  return isValidClassicAddress(address);
 }
 
-// Retry wrapper with exponential backoff
+// Addresses are typed as ClassicAddress at compile time, but stored configs
+// predate the checksum check, so verify again before hitting the network
+function assertValidAddress(account: string): void {
+  try {
+    toClassicAddress(account);
+  } catch (reason) {
+    const detail = reason instanceof Error ? reason.message : String(reason);
+    const error = new XRPLValidationError(`Invalid XRPL address: "${account}". ${detail}`, 'invalidAddress');
+    console.error(`[XRPL]`, error.message);
+    throw error;
+  }
+}
+
+interface RetryOptions {
+  maxRetries?: number;
+  initialDelay?: number;
+  signal?: AbortSignal;
+}
+
+// Retry wrapper with exponential backoff. Only errors that could succeed on a
+// second attempt (timeouts, overloaded servers, network failures) are retried.
 async function retryWithBackoff<T>(
   fn: () => Promise<T>,
-  maxRetries = 3,
-  initialDelay = 1000
+  { maxRetries = 3, initialDelay = 1000, signal }: RetryOptions = {}
 ): Promise<T> {
   let lastError: Error | null = null;
   
   for (let attempt = 0; attempt < maxRetries; attempt++) {
+    throwIfAborted(signal);
     try {
       return await fn();
     } catch (error) {
+      // Cancellation is deliberate, and a rejected request will be rejected again
+      if (isAbortError(error) || !isRetryableError(error)) {
+        throw error;
+      }
       lastError = error instanceof Error ? error : new Error(String(error));
       
       if (attempt < maxRetries - 1) {
         const delay = initialDelay * Math.pow(2, attempt);
         console.log(`[XRPL] Retry attempt ${attempt + 1}/${maxRetries} after ${delay}ms`);
-        await new Promise(resolve => setTimeout(resolve, delay));
+        await abortableDelay(delay, signal);
       }
     }
   }
@@ -67,8 +139,18 @@ async function retryWithBackoff<T>(
   throw lastError;
 }
 
-async function makeXRPLRequest(method: string, params: any[]) {
-  const server = XRPL_SERVERS[currentServerIndex];
+async function sendXRPLRequest(
+  method: string,
+  params: any[],
+  signal?: AbortSignal,
+  timeoutMs = DEFAULT_REQUEST_TIMEOUT_MS,
+  excludeServers?: ReadonlySet<string>
+) {
+  const server = selectServer(excludeServers);
+  if (server === null) {
+    console.error(`[XRPL] No server left to try for ${method}`);
+    throw new XRPLNoServerError();
+  }
   const timestamp = new Date().toISOString();
   
   console.log(`[XRPL] ${timestamp} - Making request to ${server}`);
@@ -78,15 +160,29 @@ async function makeXRPLRequest(method: string, params: any[]) {
   if (params[0]?.account) {
     const address = params[0].account;
     if (!validateXRPLAddress(address)) {
-      const error = new Error(`Invalid XRPL address format: ${address}. Address must start with 'r' and be 25-35 characters long.`);
+      const error = new XRPLValidationError(`Invalid XRPL address format: ${address}. The address is malformed or its checksum does not match.`, 'invalidAddress');
       console.error(`[XRPL] Validation error:`, error.message);
       throw error;
     }
   }
   
+  // Abort on either the caller's signal or the timeout, and remember which
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  if (signal?.aborted) {
+    clearTimeout(timer);
+    throw abortError();
+  }
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  const startTime = performance.now();
+
   try {
-    const startTime = performance.now();
-    
     const response = await fetch(server, {
       method: 'POST',
       headers: {
@@ -96,6 +192,7 @@ async function makeXRPLRequest(method: string, params: any[]) {
         method,
         params,
       }),
+      signal: controller.signal,
     });
 
     const responseTime = (performance.now() - startTime).toFixed(2);
@@ -105,52 +202,104 @@ async function makeXRPLRequest(method: string, params: any[]) {
       const errorText = await response.text();
       console.error(`[XRPL] HTTP ${response.status} error from ${server}:`, errorText);
       
-      // Try next server on failure
-      if (currentServerIndex < XRPL_SERVERS.length - 1) {
-        currentServerIndex++;
-        console.log(`[XRPL] Switching to backup server: ${XRPL_SERVERS[currentServerIndex]}`);
-      }
+      // The pool routes the retry to the next healthiest server
+      recordFailure(server, `HTTP ${response.status} ${response.statusText}`);
       
-      throw new Error(`XRPL server error (${response.status}): ${response.statusText}`);
+      if (response.status === 429) {
+        throw new XRPLRateLimitError(`XRPL server ${server} is rate limiting requests`);
+      }
+      throw new XRPLHttpError(response.status, response.statusText);
     }
 
     const data = await response.json();
     console.log(`[XRPL] Response data:`, data);
     
     if (data.result?.error) {
-      const errorMsg = data.result.error_message || data.result.error;
+      const code: string = data.result.error;
+      const errorMsg = data.result.error_message || code;
       console.error(`[XRPL] API error from ${server}:`, errorMsg);
-      throw new Error(`XRPL API error: ${errorMsg}`);
+      if (code === 'slowDown') {
+        recordFailure(server, errorMsg);
+        throw new XRPLRateLimitError();
+      }
+      if (SERVER_FAULT_CODES.has(code)) {
+        recordFailure(server, errorMsg);
+      } else {
+        // The server answered correctly; the request itself was rejected
+        recordSuccess(server, performance.now() - startTime);
+      }
+      throw new XRPLApiError(code, errorMsg, server);
     }
 
     if (!data.result) {
       console.error(`[XRPL] Invalid response structure from ${server}:`, data);
-      throw new Error('Invalid response from XRPL server - no result field');
+      recordFailure(server, 'Malformed response');
+      throw new XRPLResponseError('Invalid response from XRPL server - no result field');
     }
 
+    recordSuccess(
+      server,
+      performance.now() - startTime,
+      data.result.validated && typeof data.result.ledger_index === 'number' ? data.result.ledger_index : undefined
+    );
     console.log(`[XRPL] ✓ Request successful`);
     return data.result;
   } catch (error) {
+    if (timedOut) {
+      console.error(`[XRPL] ${method} request to ${server} timed out after ${timeoutMs}ms`);
+      recordFailure(server, `Timed out after ${timeoutMs}ms`);
+      throw new XRPLTimeoutError(server, timeoutMs);
+    }
+
+    if (isAbortError(error)) {
+      console.log(`[XRPL] ${method} request to ${server} cancelled`);
+      throw abortError();
+    }
+
     // Distinguish between network errors and API errors
-    if (error instanceof TypeError && error.message.includes('fetch')) {
+    if (error instanceof TypeError) {
       console.error(`[XRPL] Network connectivity error - Failed to reach ${server}:`, error);
-      throw new Error(`Network error: Unable to connect to XRPL server at ${server}. Please check your internet connection.`);
+      recordFailure(server, 'Network unreachable');
+      throw new XRPLNetworkError(server);
+    }
+    
+    if (error instanceof SyntaxError) {
+      console.error(`[XRPL] Unparseable response from ${server}:`, error);
+      recordFailure(server, 'Malformed response');
+      throw new XRPLResponseError('Invalid response from XRPL server - body is not JSON');
     }
     
     console.error(`[XRPL] Request failed for ${method}:`, error);
     throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
   }
 }
 
-export async function fetchAccountInfo(account: string): Promise<AccountInfo> {
+// Serve repeated requests from the shared cache, and let concurrent callers
+// asking for the same data share a single network round trip. Requests that
+// do go to the network wait for a slot in the scheduler.
+function makeXRPLRequest(method: string, params: any[], { signal, priority, timeoutMs, excludeServers }: RequestOptions = {}) {
+  return cachedRequest(
+    method,
+    params[0] ?? {},
+    sharedSignal => scheduleRequest(
+      taskSignal => sendXRPLRequest(method, params, taskSignal, timeoutMs, excludeServers),
+      { priority, signal: sharedSignal }
+    ),
+    signal
+  );
+}
+
+export async function fetchAccountInfo(
+  account: ClassicAddress,
+  options: RequestOptions = {}
+): Promise<AccountInfo> {
   console.log(`[XRPL] ========================================`);
   console.log(`[XRPL] Fetching account info for: ${account}`);
   
-  if (!validateXRPLAddress(account)) {
-    const error = new Error(`Invalid XRPL address: "${account}". Valid addresses start with 'r' and are 25-35 characters.`);
-    console.error(`[XRPL]`, error.message);
-    throw error;
-  }
+  assertValidAddress(account);
   
   try {
     const result = await retryWithBackoff(() => 
@@ -158,78 +307,649 @@ export async function fetchAccountInfo(account: string): Promise<AccountInfo> {
         {
           account,
           ledger_index: 'validated',
+          signer_lists: true,
         },
-      ])
+      ], options),
+      { signal: options.signal }
     );
 
     if (!result.account_data) {
       console.error(`[XRPL] No account_data in result:`, result);
-      throw new Error('Invalid account data response - missing account_data field');
+      throw new XRPLResponseError('Invalid account data response - missing account_data field');
     }
 
     console.log(`[XRPL] ✓ Account info retrieved successfully for ${account}`);
-    return result.account_data;
+    // API v1 nests signer lists in account_data, v2 returns them alongside it
+    return {
+      ...result.account_data,
+      signer_lists: result.signer_lists ?? result.account_data.signer_lists ?? []
+    };
   } catch (error) {
     console.error(`[XRPL] ✗ Failed to fetch account info for ${account}:`, error);
     throw error;
   }
 }
 
-export async function fetchAccountLines(account: string): Promise<TrustLine[]> {
+export interface PaginationProgress {
+  pages: number;
+  items: number;
+}
+
+export interface PaginationOptions extends RequestOptions {
+  // Page size requested from the server (servers clamp this to their own bounds)
+  limit?: number;
+  onProgress?: (progress: PaginationProgress) => void;
+}
+
+const DEFAULT_PAGE_LIMIT = 400;
+
+// Walk a marker-paginated XRPL method, yielding one page of items at a time.
+// Every page after the first is pinned to the ledger the first page came from,
+// because markers are only valid against the ledger they were issued for.
+async function* paginate<T>(
+  method: string,
+  params: Record<string, unknown>,
+  resultField: string,
+  { limit = DEFAULT_PAGE_LIMIT, ...requestOptions }: Omit<PaginationOptions, 'onProgress'> = {}
+): AsyncGenerator<T[], void, undefined> {
+  let marker: unknown;
+  let ledgerIndex: number | 'validated' = 'validated';
+  let page = 0;
+  // Servers that turned out not to have the pinned ledger
+  const lagging = new Set<string>();
+
+  do {
+    page++;
+    let result;
+    for (;;) {
+      try {
+        result = await retryWithBackoff(() =>
+          makeXRPLRequest(method, [
+            {
+              ...params,
+              ledger_index: ledgerIndex,
+              limit,
+              ...(marker !== undefined ? { marker } : {}),
+            },
+          ], { ...requestOptions, excludeServers: lagging }),
+          { signal: requestOptions.signal }
+        );
+        break;
+      } catch (error) {
+        // A server behind the one that served the first page doesn't have
+        // its ledger yet; ask the others, and give up once all have been tried
+        if (typeof ledgerIndex !== 'number') throw error;
+        if (error instanceof XRPLApiError && error.code === 'lgrNotFound' && error.server) {
+          console.log(`[XRPL] ${error.server} does not have ledger ${ledgerIndex}, trying another server`);
+          lagging.add(error.server);
+          continue;
+        }
+        if (error instanceof XRPLNoServerError) {
+          throw new XRPLApiError('lgrNotFound', `No XRPL server in the pool has ledger ${ledgerIndex}, which ${method} pagination started on`);
+        }
+        throw error;
+      }
+    }
+
+    const items: T[] = result[resultField] || [];
+    marker = result.marker;
+    if (typeof result.ledger_index === 'number') {
+      ledgerIndex = result.ledger_index;
+    }
+
+    console.log(`[XRPL] ${method} page ${page}: ${items.length} items${marker !== undefined ? ' (more available)' : ''}`);
+
+    yield items;
+  } while (marker !== undefined);
+}
+
+// Drain a paginated iterator into a single array, reporting progress per page
+async function collectPages<T>(
+  pages: AsyncIterable<T[]>,
+  onProgress?: (progress: PaginationProgress) => void
+): Promise<T[]> {
+  const items: T[] = [];
+  let pageCount = 0;
+
+  for await (const page of pages) {
+    pageCount++;
+    items.push(...page);
+    onProgress?.({ pages: pageCount, items: items.length });
+  }
+
+  return items;
+}
+
+export function iterateAccountLines(
+  account: ClassicAddress,
+  options: Omit<PaginationOptions, 'onProgress'> = {}
+): AsyncGenerator<TrustLine[], void, undefined> {
+  assertValidAddress(account);
+  return paginate<TrustLine>('account_lines', { account }, 'lines', options);
+}
+
+export async function fetchAllAccountLines(
+  account: ClassicAddress,
+  options: PaginationOptions = {}
+): Promise<TrustLine[]> {
   console.log(`[XRPL] ========================================`);
-  console.log(`[XRPL] Fetching trust lines for: ${account}`);
+  console.log(`[XRPL] Fetching all trust lines for: ${account}`);
   
-  if (!validateXRPLAddress(account)) {
-    const error = new Error(`Invalid XRPL address: "${account}". Valid addresses start with 'r' and are 25-35 characters.`);
-    console.error(`[XRPL]`, error.message);
+  try {
+    const lines = await collectPages(iterateAccountLines(account, options), options.onProgress);
+    console.log(`[XRPL] ✓ Retrieved ${lines.length} trust lines for ${account}`);
+    return lines;
+  } catch (error) {
+    console.error(`[XRPL] ✗ Failed to fetch trust lines for ${account}:`, error);
     throw error;
   }
+}
+
+export function iterateAccountNFTs(
+  account: ClassicAddress,
+  options: Omit<PaginationOptions, 'onProgress'> = {}
+): AsyncGenerator<NFToken[], void, undefined> {
+  assertValidAddress(account);
+  return paginate<NFToken>('account_nfts', { account }, 'account_nfts', options);
+}
+
+export async function fetchAllAccountNFTs(
+  account: ClassicAddress,
+  options: PaginationOptions = {}
+): Promise<NFToken[]> {
+  console.log(`[XRPL] ========================================`);
+  console.log(`[XRPL] Fetching all NFTs for: ${account}`);
+  
+  assertValidAddress(account);
   
+  try {
+    const nfts = await collectPages(iterateAccountNFTs(account, options), options.onProgress);
+    console.log(`[XRPL] ✓ Retrieved ${nfts.length} NFTs for ${account}`);
+    return nfts;
+  } catch (error) {
+    // An account without NFTs returns an empty list, so any error is a real failure
+    console.error(`[XRPL] ✗ Failed to fetch NFTs for ${account}:`, error);
+    throw error;
+  }
+}
+
+// An open offer to buy or sell one NFToken
+export interface NFTOffer {
+  nft_offer_index: string;
+  amount: LedgerAmount;
+  owner: string;
+  flags: number;
+  // Only this account may accept the offer
+  destination?: string;
+  // Seconds since the XRPL epoch
+  expiration?: number;
+}
+
+export type NFTOfferSide = 'sell' | 'buy';
+
+// All open offers on one side of an NFToken, or [] if there are none
+export async function fetchNFTOffers(
+  side: NFTOfferSide,
+  nftId: string,
+  options: PaginationOptions = {}
+): Promise<NFTOffer[]> {
+  const method = side === 'sell' ? 'nft_sell_offers' : 'nft_buy_offers';
+  console.log(`[XRPL] Fetching ${side} offers for NFT ${nftId}`);
+
+  try {
+    const offers = await collectPages(paginate<NFTOffer>(method, { nft_id: nftId }, 'offers', options), options.onProgress);
+    console.log(`[XRPL] ✓ Retrieved ${offers.length} ${side} offers for NFT ${nftId}`);
+    return offers;
+  } catch (error) {
+    // The server reports a token without offers as objectNotFound
+    if (hasErrorCode(error, 'objectNotFound')) {
+      return [];
+    }
+    console.error(`[XRPL] ✗ Failed to fetch ${side} offers for NFT ${nftId}:`, error);
+    throw error;
+  }
+}
+
+export function fetchNFTSellOffers(nftId: string, options: PaginationOptions = {}): Promise<NFTOffer[]> {
+  return fetchNFTOffers('sell', nftId, options);
+}
+
+export function fetchNFTBuyOffers(nftId: string, options: PaginationOptions = {}): Promise<NFTOffer[]> {
+  return fetchNFTOffers('buy', nftId, options);
+}
+
+// An NFToken as Clio's NFT APIs report it. Unlike account_nfts these include
+// the current owner and burned tokens.
+export interface ClioNFT {
+  nft_id: string;
+  ledger_index: number;
+  owner: string;
+  is_burned: boolean;
+  flags: number;
+  transfer_fee: number;
+  issuer: string;
+  nft_taxon: number;
+  nft_serial: number;
+  uri?: string;
+}
+
+// rippled doesn't implement Clio's methods and rejects them as unknownCmd
+export function isClioUnsupportedError(error: unknown): boolean {
+  return hasErrorCode(error, 'unknownCmd');
+}
+
+export interface NFTsByIssuerOptions extends PaginationOptions {
+  // Only tokens in this collection
+  taxon?: number;
+}
+
+// Largest nfts_by_issuer page Clio serves
+const NFTS_BY_ISSUER_PAGE_LIMIT = 100;
+
+// Every NFToken an issuer has minted, including burned ones (Clio only)
+export function iterateNFTsByIssuer(
+  issuer: ClassicAddress,
+  { taxon, limit = NFTS_BY_ISSUER_PAGE_LIMIT, ...options }: Omit<NFTsByIssuerOptions, 'onProgress'> = {}
+): AsyncGenerator<ClioNFT[], void, undefined> {
+  assertValidAddress(issuer);
+  const params = { issuer, ...(taxon !== undefined ? { nft_taxon: taxon } : {}) };
+  return paginate<ClioNFT>('nfts_by_issuer', params, 'nfts', { ...options, limit });
+}
+
+export async function fetchAllNFTsByIssuer(
+  issuer: ClassicAddress,
+  { onProgress, ...options }: NFTsByIssuerOptions = {}
+): Promise<ClioNFT[]> {
+  console.log(`[XRPL] Fetching all NFTs issued by: ${issuer}`);
+
+  try {
+    const nfts = await collectPages(iterateNFTsByIssuer(issuer, options), onProgress);
+    console.log(`[XRPL] ✓ Retrieved ${nfts.length} NFTs issued by ${issuer}`);
+    return nfts;
+  } catch (error) {
+    console.error(`[XRPL] ✗ Failed to fetch NFTs issued by ${issuer}:`, error);
+    throw error;
+  }
+}
+
+// Current state of one NFToken (Clio only), or null if it never existed
+export async function fetchNFTInfo(nftId: string, options: RequestOptions = {}): Promise<ClioNFT | null> {
+  console.log(`[XRPL] Fetching NFT info for ${nftId}`);
+
   try {
     const result = await retryWithBackoff(() =>
-      makeXRPLRequest('account_lines', [
+      makeXRPLRequest('nft_info', [
         {
-          account,
+          nft_id: nftId,
           ledger_index: 'validated',
         },
-      ])
+      ], options),
+      { signal: options.signal }
     );
 
-    const lines = result.lines || [];
-    console.log(`[XRPL] ✓ Retrieved ${lines.length} trust lines for ${account}`);
-    return lines;
+    if (!result.nft_id) {
+      throw new XRPLResponseError('Invalid nft_info response - missing nft_id field');
+    }
+    return result as ClioNFT;
   } catch (error) {
-    console.error(`[XRPL] ✗ Failed to fetch trust lines for ${account}:`, error);
+    if (hasErrorCode(error, 'objectNotFound')) {
+      console.log(`[XRPL] NFT ${nftId} not found`);
+      return null;
+    }
+    console.error(`[XRPL] ✗ Failed to fetch NFT info:`, error);
     throw error;
   }
 }
 
-export async function fetchAccountNFTs(account: string): Promise<NFToken[]> {
+// One entry of an account_tx result. API v2 servers return the transaction as
+// tx_json; it is normalised to tx here.
+export interface AccountTransaction {
+  tx: Record<string, any> & {
+    TransactionType: string;
+    Account: string;
+    hash: string;
+    date?: number;
+    Fee?: string;
+  };
+  meta: Record<string, any> & {
+    TransactionResult: string;
+    delivered_amount?: LedgerAmount | 'unavailable';
+  };
+  validated: boolean;
+  ledger_index: number;
+}
+
+export interface AccountTransactionsPage {
+  transactions: AccountTransaction[];
+  // Pass back to fetch the next (older) page; undefined on the last page
+  marker?: unknown;
+}
+
+export interface AccountTransactionsOptions extends RequestOptions {
+  limit?: number;
+  marker?: unknown;
+}
+
+const DEFAULT_TX_PAGE_LIMIT = 50;
+
+function normalizeAccountTransaction(entry: Record<string, any>): AccountTransaction {
+  const tx = entry.tx ?? { ...entry.tx_json, hash: entry.hash };
+  return {
+    tx,
+    meta: entry.meta,
+    validated: Boolean(entry.validated),
+    ledger_index: entry.ledger_index ?? tx.ledger_index
+  };
+}
+
+// Fetch one page of an account's validated transactions, newest first.
+// Unlike the ledger-state methods, account_tx spans a range of ledgers, so
+// its markers stay valid without pinning a ledger index.
+export async function fetchAccountTransactions(
+  account: ClassicAddress,
+  { limit = DEFAULT_TX_PAGE_LIMIT, marker, ...requestOptions }: AccountTransactionsOptions = {}
+): Promise<AccountTransactionsPage> {
+  console.log(`[XRPL] Fetching transactions for ${account}${marker !== undefined ? ' (next page)' : ''}`);
+  
+  assertValidAddress(account);
+  
+  const result = await retryWithBackoff(() =>
+    makeXRPLRequest('account_tx', [
+      {
+        account,
+        ledger_index_min: -1,
+        ledger_index_max: -1,
+        forward: false,
+        limit,
+        ...(marker !== undefined ? { marker } : {}),
+      },
+    ], requestOptions),
+    { signal: requestOptions.signal }
+  );
+
+  const transactions: AccountTransaction[] = (result.transactions || [])
+    .map(normalizeAccountTransaction)
+    .filter((entry: AccountTransaction) => entry.validated);
+
+  console.log(`[XRPL] ✓ Retrieved ${transactions.length} transactions for ${account}${result.marker !== undefined ? ' (more available)' : ''}`);
+  return { transactions, marker: result.marker };
+}
+
+export async function* iterateAccountTransactions(
+  account: ClassicAddress,
+  options: Omit<AccountTransactionsOptions, 'marker'> = {}
+): AsyncGenerator<AccountTransaction[], void, undefined> {
+  let marker: unknown;
+  do {
+    const page = await fetchAccountTransactions(account, { ...options, marker });
+    marker = page.marker;
+    yield page.transactions;
+  } while (marker !== undefined);
+}
+
+export interface AccountObjectsOptions extends PaginationOptions {
+  // Only return objects of this type
+  type?: AccountObjectType;
+}
+
+export function iterateAccountObjects(
+  account: ClassicAddress,
+  { type, ...options }: Omit<AccountObjectsOptions, 'onProgress'> = {}
+): AsyncGenerator<LedgerObject[], void, undefined> {
+  assertValidAddress(account);
+  return paginate<LedgerObject>('account_objects', { account, ...(type ? { type } : {}) }, 'account_objects', options);
+}
+
+export async function fetchAllAccountObjects(
+  account: ClassicAddress,
+  options: AccountObjectsOptions = {}
+): Promise<LedgerObject[]> {
   console.log(`[XRPL] ========================================`);
-  console.log(`[XRPL] Fetching NFTs for: ${account}`);
+  console.log(`[XRPL] Fetching ${options.type ?? 'all'} ledger objects for: ${account}`);
   
-  if (!validateXRPLAddress(account)) {
-    const error = new Error(`Invalid XRPL address: "${account}". Valid addresses start with 'r' and are 25-35 characters.`);
-    console.error(`[XRPL]`, error.message);
+  try {
+    const objects = await collectPages(iterateAccountObjects(account, options), options.onProgress);
+    console.log(`[XRPL] ✓ Retrieved ${objects.length} ledger objects for ${account}`);
+    return objects;
+  } catch (error) {
+    console.error(`[XRPL] ✗ Failed to fetch ledger objects for ${account}:`, error);
     throw error;
   }
-  
+}
+
+export interface ReserveSettings {
+  // XRP every funded account must hold
+  baseDrops: bigint;
+  // Additional XRP per owned object (each OwnerCount increment)
+  incrementDrops: bigint;
+  ledgerIndex: number;
+}
+
+// Current reserve requirements from the latest validated ledger. server_state
+// reports them in drops, unlike server_info's floating-point XRP.
+export async function fetchReserves(options: RequestOptions = {}): Promise<ReserveSettings> {
+  const result = await retryWithBackoff(() =>
+    makeXRPLRequest('server_state', [{}], options),
+    { signal: options.signal }
+  );
+
+  const ledger = result.state?.validated_ledger;
+  if (!ledger || ledger.reserve_base === undefined || ledger.reserve_inc === undefined) {
+    console.error(`[XRPL] No validated ledger in server_state:`, result);
+    throw new XRPLResponseError('Server has no validated ledger to read reserves from');
+  }
+
+  return {
+    baseDrops: BigInt(ledger.reserve_base),
+    incrementDrops: BigInt(ledger.reserve_inc),
+    ledgerIndex: ledger.seq
+  };
+}
+
+export interface GatewayBalance {
+  currency: string;
+  value: string;
+}
+
+export interface GatewayBalances {
+  account: string;
+  // Currency code -> amount issued, excluding what the hot wallets hold
+  obligations: Record<string, string>;
+  // Hot wallet address -> what it holds of this issuer's tokens
+  balances: Record<string, GatewayBalance[]>;
+  // Other issuer's address -> what this account holds from them
+  assets: Record<string, GatewayBalance[]>;
+  // Holder address -> balances this issuer has frozen
+  frozenBalances: Record<string, GatewayBalance[]>;
+  ledgerIndex: number;
+}
+
+export interface GatewayBalancesOptions extends RequestOptions {
+  // Wallets operated by the issuer, reported separately from obligations
+  hotwallets?: string[];
+}
+
+export async function fetchGatewayBalances(
+  account: ClassicAddress,
+  { hotwallets = [], ...options }: GatewayBalancesOptions = {}
+): Promise<GatewayBalances> {
+  console.log(`[XRPL] ========================================`);
+  console.log(`[XRPL] Fetching gateway balances for: ${account} (${hotwallets.length} hot wallets)`);
+
+  assertValidAddress(account);
+  hotwallets.forEach(assertValidAddress);
+
   try {
     const result = await retryWithBackoff(() =>
-      makeXRPLRequest('account_nfts', [
+      makeXRPLRequest('gateway_balances', [
         {
           account,
           ledger_index: 'validated',
+          strict: true,
+          // Sorted so the same set of wallets always hits the same cache entry
+          ...(hotwallets.length > 0 ? { hotwallet: [...hotwallets].sort() } : {}),
         },
-      ])
+      ], options),
+      { signal: options.signal }
     );
 
-    const nfts = result.account_nfts || [];
-    console.log(`[XRPL] ✓ Retrieved ${nfts.length} NFTs for ${account}`);
-    return nfts;
+    console.log(`[XRPL] ✓ Gateway balances retrieved for ${account}`);
+    return {
+      account: result.account,
+      obligations: result.obligations ?? {},
+      balances: result.balances ?? {},
+      assets: result.assets ?? {},
+      frozenBalances: result.frozen_balances ?? {},
+      ledgerIndex: result.ledger_index
+    };
   } catch (error) {
-    // If account has no NFTs, the API might return an error
-    console.warn(`[XRPL] ⚠ Failed to fetch NFTs for ${account} (may not have any):`, error);
-    return [];
+    console.error(`[XRPL] ✗ Failed to fetch gateway balances for ${account}:`, error);
+    throw error;
+  }
+}
+
+// One side of an order book: XRP has no issuer
+export interface BookAsset {
+  currency: string;
+  issuer?: string;
+}
+
+export interface BookOffer {
+  Account: string;
+  TakerGets: LedgerAmount;
+  TakerPays: LedgerAmount;
+  Flags: number;
+  Sequence: number;
+  // Present when the owner can't fund the whole offer; what it can actually deliver
+  taker_gets_funded?: LedgerAmount;
+  taker_pays_funded?: LedgerAmount;
+  owner_funds?: string;
+  quality?: string;
+}
+
+export interface BookOffersResult {
+  offers: BookOffer[];
+  ledgerIndex: number;
+}
+
+export interface BookOffersOptions extends RequestOptions {
+  limit?: number;
+  // Read the book as of this ledger rather than the latest validated one
+  ledgerIndex?: number;
+}
+
+const DEFAULT_BOOK_LIMIT = 200;
+
+// Offers that sell `takerGets` for `takerPays`, best rate first
+export async function fetchBookOffers(
+  takerGets: BookAsset,
+  takerPays: BookAsset,
+  { limit = DEFAULT_BOOK_LIMIT, ledgerIndex, ...options }: BookOffersOptions = {}
+): Promise<BookOffersResult> {
+  console.log(`[XRPL] Fetching book offers: ${takerGets.currency} -> ${takerPays.currency}`);
+
+  const result = await retryWithBackoff(() =>
+    makeXRPLRequest('book_offers', [
+      {
+        taker_gets: takerGets,
+        taker_pays: takerPays,
+        ledger_index: ledgerIndex ?? 'validated',
+        limit,
+      },
+    ], options),
+    { signal: options.signal }
+  );
+
+  return {
+    offers: result.offers ?? [],
+    ledgerIndex: result.ledger_index
+  };
+}
+
+export interface OrderBookOffers {
+  // Offers selling the base asset for the counter asset
+  asks: BookOffer[];
+  // Offers buying the base asset with the counter asset
+  bids: BookOffer[];
+  ledgerIndex: number;
+}
+
+// Both sides of BASE/COUNTER, read from the same ledger
+export async function fetchOrderBook(
+  base: BookAsset,
+  counter: BookAsset,
+  options: BookOffersOptions = {}
+): Promise<OrderBookOffers> {
+  const asks = await fetchBookOffers(base, counter, options);
+  const bids = await fetchBookOffers(counter, base, { ...options, ledgerIndex: asks.ledgerIndex });
+  console.log(`[XRPL] ✓ Order book at ledger ${asks.ledgerIndex}: ${asks.offers.length} asks, ${bids.offers.length} bids`);
+  return { asks: asks.offers, bids: bids.offers, ledgerIndex: asks.ledgerIndex };
+}
+
+export interface AMMVoteSlot {
+  account: string;
+  // Proposed fee in units of 1/100,000 (1000 = 1%)
+  trading_fee: number;
+  // Share of LP tokens behind the vote in units of 1/100,000
+  vote_weight: number;
+}
+
+export interface AMMAuctionSlot {
+  account: string;
+  auth_accounts?: { account: string }[];
+  discounted_fee: number;
+  // ISO 8601 timestamp
+  expiration: string;
+  price: IssuedAmount;
+  time_interval: number;
+}
+
+export interface AMMInfo {
+  account: string;
+  amount: LedgerAmount;
+  amount2: LedgerAmount;
+  asset_frozen?: boolean;
+  asset2_frozen?: boolean;
+  auction_slot?: AMMAuctionSlot;
+  lp_token: IssuedAmount;
+  trading_fee: number;
+  vote_slots?: AMMVoteSlot[];
+  // Ledger the pool was read from
+  ledger_index: number;
+}
+
+// The AMM pool for an asset pair, or null if no pool exists for it
+export async function fetchAMMInfo(
+  asset: BookAsset,
+  asset2: BookAsset,
+  options: RequestOptions = {}
+): Promise<AMMInfo | null> {
+  console.log(`[XRPL] Fetching AMM pool for ${asset.currency}/${asset2.currency}`);
+
+  try {
+    const result = await retryWithBackoff(() =>
+      makeXRPLRequest('amm_info', [
+        {
+          asset,
+          asset2,
+          ledger_index: 'validated',
+        },
+      ], options),
+      { signal: options.signal }
+    );
+
+    if (!result.amm) {
+      throw new XRPLResponseError('Invalid amm_info response - missing amm field');
+    }
+    console.log(`[XRPL] ✓ AMM pool found: ${result.amm.account}`);
+    return { ...result.amm, ledger_index: result.ledger_index };
+  } catch (error) {
+    // actNotFound here means there's no pool for this pair
+    if (hasErrorCode(error, 'actNotFound')) {
+      console.log(`[XRPL] No AMM pool for ${asset.currency}/${asset2.currency}`);
+      return null;
+    }
+    console.error(`[XRPL] ✗ Failed to fetch AMM info:`, error);
+    throw error;
   }
 }
@@ -0,0 +1,118 @@
+// Typed failures for XRPL requests. Each error carries a machine-readable
+// code, so callers can react to specific cases (an unfunded account, a rate
+// limit, a timeout), and says whether sending the same request again could
+// succeed.
+
+// rippled error codes that mean the server is unhealthy or overloaded rather
+// than the request being wrong; another server (or a later try) may succeed
+export const SERVER_FAULT_CODES = new Set(['tooBusy', 'noNetwork', 'noCurrent', 'noClosed', 'amendmentBlocked']);
+
+export class XRPLError extends Error {
+  constructor(
+    message: string,
+    readonly code: string,
+    readonly retryable: boolean
+  ) {
+    super(message);
+    this.name = 'XRPLError';
+  }
+}
+
+// The request never got an HTTP response
+export class XRPLNetworkError extends XRPLError {
+  constructor(readonly server: string) {
+    super(`Network error: Unable to connect to XRPL server at ${server}. Please check your internet connection.`, 'network', true);
+    this.name = 'XRPLNetworkError';
+  }
+}
+
+export class XRPLTimeoutError extends XRPLError {
+  constructor(readonly server: string, readonly timeoutMs: number) {
+    super(`XRPL server ${server} did not respond within ${timeoutMs / 1000}s`, 'timeout', true);
+    this.name = 'XRPLTimeoutError';
+  }
+}
+
+export class XRPLHttpError extends XRPLError {
+  constructor(readonly status: number, statusText: string) {
+    // Server-side failures are worth retrying; other 4xx responses won't change
+    super(`XRPL server error (${status}): ${statusText}`, `http_${status}`, status >= 500);
+    this.name = 'XRPLHttpError';
+  }
+}
+
+// rippled's slowDown error, or HTTP 429 from a public cluster
+export class XRPLRateLimitError extends XRPLError {
+  constructor(message = 'XRPL server is rate limiting requests') {
+    super(message, 'slowDown', true);
+    this.name = 'XRPLRateLimitError';
+  }
+}
+
+// rippled answered with an error result, e.g. actNotFound or invalidParams
+export class XRPLApiError extends XRPLError {
+  constructor(code: string, readonly serverMessage: string, readonly server?: string) {
+    super(`XRPL API error: ${serverMessage}`, code, SERVER_FAULT_CODES.has(code));
+    this.name = 'XRPLApiError';
+  }
+}
+
+export class XRPLResponseError extends XRPLError {
+  constructor(message: string) {
+    super(message, 'malformedResponse', true);
+    this.name = 'XRPLResponseError';
+  }
+}
+
+// Every server in the pool was ruled out for this request
+export class XRPLNoServerError extends XRPLError {
+  constructor() {
+    super('No XRPL server left to try for this request', 'noServerAvailable', false);
+    this.name = 'XRPLNoServerError';
+  }
+}
+
+// The request was rejected before it was sent
+export class XRPLValidationError extends XRPLError {
+  constructor(message: string, code = 'invalidParams') {
+    super(message, code, false);
+    this.name = 'XRPLValidationError';
+  }
+}
+
+export function isRetryableError(error: unknown): boolean {
+  return error instanceof XRPLError && error.retryable;
+}
+
+export function hasErrorCode(error: unknown, code: string): boolean {
+  return error instanceof XRPLError && error.code === code;
+}
+
+// Short explanations for the error codes users actually run into
+const CODE_DESCRIPTIONS: Record<string, string> = {
+  actNotFound: 'Account not activated: it has never been funded with the XRP reserve on this network.',
+  actMalformed: 'The account address is malformed.',
+  lgrNotFound: 'The server does not have the requested ledger yet. Try again shortly.',
+  objectNotFound: 'The requested ledger object does not exist.',
+  slowDown: 'The XRPL server is rate limiting requests. Please wait a moment and try again.',
+  tooBusy: 'The XRPL server is too busy to answer. Please try again shortly.',
+  noNetwork: 'The XRPL server is not connected to the network.',
+  noCurrent: 'The XRPL server is not synced with the network.',
+  noClosed: 'The XRPL server is not synced with the network.',
+  amendmentBlocked: 'The XRPL server is amendment blocked and cannot serve requests.',
+  unknownCmd: 'The XRPL server does not support this request.',
+  timeout: 'The XRPL server took too long to respond.',
+  network: 'Unable to reach the XRPL server. Please check your internet connection.',
+  malformedResponse: 'The XRPL server sent an unexpected response.'
+};
+
+// Message suitable for showing to users
+export function describeXRPLError(error: unknown, fallback = 'Unknown error'): string {
+  if (error instanceof XRPLError) {
+    const description = CODE_DESCRIPTIONS[error.code];
+    if (description) return description;
+    if (error instanceof XRPLApiError) return `The XRPL server rejected the request: ${error.serverMessage}`;
+    return error.message;
+  }
+  return error instanceof Error ? error.message : fallback;
+}
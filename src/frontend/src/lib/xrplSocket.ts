@@ -0,0 +1,409 @@
+// WebSocket transport for the XRPL. Complements the JSON-RPC requests in
+// xrpl.ts with streaming subscriptions (ledger closes and account activity).
+import { getActiveNetwork, subscribeToNetwork } from './networks';
+
+const REQUEST_TIMEOUT_MS = 20_000;
+const MAX_RECONNECT_DELAY_MS = 30_000;
+// Keep the socket open briefly after the last subscriber leaves so quick
+// view switches don't cause a disconnect/reconnect cycle
+const IDLE_DISCONNECT_MS = 10_000;
+
+export type SocketState = 'idle' | 'connecting' | 'connected' | 'reconnecting';
+
+export interface LedgerClosedEvent {
+  ledger_index: number;
+  ledger_hash: string;
+  ledger_time: number;
+  txn_count: number;
+  fee_base: number;
+  reserve_base: number;
+  reserve_inc: number;
+  validated_ledgers?: string;
+}
+
+export interface AccountTransactionEvent {
+  ledger_index?: number;
+  validated: boolean;
+  engine_result: string;
+  transaction: Record<string, any>;
+  meta?: Record<string, any>;
+  // Subscribed accounts whose ledger state this transaction touched
+  affectedAccounts: string[];
+}
+
+type LedgerListener = (event: LedgerClosedEvent) => void;
+type TransactionListener = (event: AccountTransactionEvent) => void;
+type StateListener = (state: SocketState) => void;
+
+interface PendingRequest {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// Collect every account whose AccountRoot or trust lines were modified
+function getAffectedAccounts(meta: Record<string, any> | undefined): Set<string> {
+  const accounts = new Set<string>();
+  if (!meta?.AffectedNodes) {
+    return accounts;
+  }
+
+  for (const wrapper of meta.AffectedNodes) {
+    const node = wrapper.ModifiedNode || wrapper.CreatedNode || wrapper.DeletedNode;
+    if (!node) continue;
+    const fields = node.FinalFields || node.NewFields || {};
+
+    if (node.LedgerEntryType === 'AccountRoot' && fields.Account) {
+      accounts.add(fields.Account);
+    } else if (node.LedgerEntryType === 'RippleState') {
+      if (fields.HighLimit?.issuer) accounts.add(fields.HighLimit.issuer);
+      if (fields.LowLimit?.issuer) accounts.add(fields.LowLimit.issuer);
+    }
+  }
+
+  return accounts;
+}
+
+class XRPLSocketClient {
+  private socket: WebSocket | null = null;
+  private serverIndex = 0;
+  private nextRequestId = 1;
+  private pending = new Map<number, PendingRequest>();
+  private state: SocketState = 'idle';
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private connectPromise: Promise<void> | null = null;
+
+  // Reference counts so several views can share one upstream subscription
+  private accountRefs = new Map<string, number>();
+  private ledgerListeners = new Set<LedgerListener>();
+  private transactionListeners = new Set<TransactionListener>();
+  private stateListeners = new Set<StateListener>();
+
+  constructor(private servers: string[]) {}
+
+  getState(): SocketState {
+    return this.state;
+  }
+
+  getServer(): string {
+    return this.servers[this.serverIndex] ?? 'none';
+  }
+
+  // Point the client at a different set of endpoints, moving any active
+  // subscriptions over to the new connection
+  setServers(servers: string[]): void {
+    this.servers = servers;
+    this.serverIndex = 0;
+    this.reconnectAttempts = 0;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    const socket = this.socket;
+    if (socket) {
+      // Detach first so the close isn't treated as a dropped connection
+      socket.onopen = null;
+      socket.onclose = null;
+      socket.onmessage = null;
+      socket.onerror = null;
+      socket.close();
+      this.socket = null;
+      this.connectPromise = null;
+      this.rejectPending(new Error('XRPL WebSocket endpoint changed'));
+    }
+    this.setState('idle');
+
+    if (this.hasSubscriptions()) {
+      this.connect().catch(error => {
+        console.warn('[XRPL-WS] Connect after endpoint change failed:', error);
+      });
+    }
+  }
+
+  onStateChange(listener: StateListener): () => void {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  // Send a single command over the socket, connecting first if needed
+  async request(command: string, params: Record<string, unknown> = {}): Promise<any> {
+    await this.connect();
+
+    const id = this.nextRequestId++;
+    console.log(`[XRPL-WS] → ${command} (#${id})`, params);
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`XRPL WebSocket request "${command}" timed out after ${REQUEST_TIMEOUT_MS}ms`));
+      }, REQUEST_TIMEOUT_MS);
+
+      this.pending.set(id, { resolve, reject, timer });
+      this.socket!.send(JSON.stringify({ id, command, ...params }));
+    });
+  }
+
+  subscribeLedger(listener: LedgerListener): () => void {
+    this.cancelIdleDisconnect();
+    const isFirst = this.ledgerListeners.size === 0;
+    this.ledgerListeners.add(listener);
+
+    if (isFirst) {
+      this.sendSubscription('subscribe', { streams: ['ledger'] });
+    }
+
+    return () => {
+      this.ledgerListeners.delete(listener);
+      if (this.ledgerListeners.size === 0) {
+        this.sendSubscription('unsubscribe', { streams: ['ledger'] });
+      }
+      this.scheduleIdleDisconnect();
+    };
+  }
+
+  subscribeAccounts(accounts: string[], listener: TransactionListener): () => void {
+    this.cancelIdleDisconnect();
+    const unique = [...new Set(accounts)];
+    const added = unique.filter(account => !this.accountRefs.has(account));
+    unique.forEach(account => this.accountRefs.set(account, (this.accountRefs.get(account) ?? 0) + 1));
+
+    const wrapped: TransactionListener = event => {
+      const relevant = event.affectedAccounts.filter(account => unique.includes(account));
+      if (relevant.length > 0) {
+        listener({ ...event, affectedAccounts: relevant });
+      }
+    };
+    this.transactionListeners.add(wrapped);
+
+    if (added.length > 0) {
+      this.sendSubscription('subscribe', { accounts: added });
+    }
+
+    return () => {
+      this.transactionListeners.delete(wrapped);
+      const removed: string[] = [];
+      unique.forEach(account => {
+        const count = (this.accountRefs.get(account) ?? 1) - 1;
+        if (count <= 0) {
+          this.accountRefs.delete(account);
+          removed.push(account);
+        } else {
+          this.accountRefs.set(account, count);
+        }
+      });
+      if (removed.length > 0) {
+        this.sendSubscription('unsubscribe', { accounts: removed });
+      }
+      this.scheduleIdleDisconnect();
+    };
+  }
+
+  private hasSubscriptions(): boolean {
+    return this.ledgerListeners.size > 0 || this.accountRefs.size > 0;
+  }
+
+  private sendSubscription(command: 'subscribe' | 'unsubscribe', params: Record<string, unknown>): void {
+    if (this.state !== 'connected') {
+      // Unsubscribing from a closed socket is a no-op since the server already
+      // forgot us, and new subscriptions are sent by resubscribe() once open
+      if (command === 'subscribe' && !this.reconnectTimer) {
+        this.connect().catch(error => {
+          console.warn('[XRPL-WS] Connect failed:', error);
+        });
+      }
+      return;
+    }
+    this.request(command, params).catch(error => {
+      console.warn(`[XRPL-WS] ${command} failed:`, error);
+    });
+  }
+
+  private setState(state: SocketState): void {
+    if (this.state === state) return;
+    this.state = state;
+    console.log(`[XRPL-WS] State: ${state} (${this.getServer()})`);
+    this.stateListeners.forEach(listener => listener(state));
+  }
+
+  private connect(): Promise<void> {
+    if (this.state === 'connected' && this.socket) {
+      return Promise.resolve();
+    }
+    if (this.connectPromise) {
+      return this.connectPromise;
+    }
+    if (this.servers.length === 0) {
+      return Promise.reject(new Error('No XRPL WebSocket endpoints configured for this network'));
+    }
+
+    this.setState(this.reconnectAttempts > 0 ? 'reconnecting' : 'connecting');
+    const server = this.getServer();
+
+    this.connectPromise = new Promise<void>((resolve, reject) => {
+      const socket = new WebSocket(server);
+      this.socket = socket;
+
+      socket.onopen = () => {
+        console.log(`[XRPL-WS] ✓ Connected to ${server}`);
+        this.connectPromise = null;
+        this.reconnectAttempts = 0;
+        this.setState('connected');
+        resolve();
+        this.resubscribe();
+      };
+
+      socket.onmessage = event => this.handleMessage(event.data);
+
+      socket.onerror = event => {
+        console.error(`[XRPL-WS] Socket error on ${server}:`, event);
+      };
+
+      socket.onclose = () => {
+        const wasConnecting = this.connectPromise !== null;
+        this.connectPromise = null;
+        this.socket = null;
+        this.rejectPending(new Error(`XRPL WebSocket connection to ${server} closed`));
+
+        if (wasConnecting) {
+          reject(new Error(`Unable to connect to XRPL WebSocket server at ${server}`));
+        }
+
+        if (this.hasSubscriptions()) {
+          this.scheduleReconnect();
+        } else {
+          this.setState('idle');
+        }
+      };
+    });
+
+    return this.connectPromise;
+  }
+
+  // Re-establish every stream after a (re)connect
+  private resubscribe(): void {
+    const accounts = [...this.accountRefs.keys()];
+    if (accounts.length > 0) {
+      console.log(`[XRPL-WS] Resubscribing to ${accounts.length} accounts`);
+      this.sendSubscription('subscribe', { accounts });
+    }
+    if (this.ledgerListeners.size > 0) {
+      this.sendSubscription('subscribe', { streams: ['ledger'] });
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer) return;
+
+    // Rotate through the server list so one dead endpoint can't stall us
+    this.serverIndex = (this.serverIndex + 1) % this.servers.length;
+    const delay = Math.min(1000 * Math.pow(2, this.reconnectAttempts), MAX_RECONNECT_DELAY_MS);
+    this.reconnectAttempts++;
+    this.setState('reconnecting');
+    console.log(`[XRPL-WS] Reconnecting to ${this.getServer()} in ${delay}ms (attempt ${this.reconnectAttempts})`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (!this.hasSubscriptions()) {
+        this.setState('idle');
+        return;
+      }
+      this.connect().catch(error => {
+        console.warn('[XRPL-WS] Reconnect failed:', error);
+      });
+    }, delay);
+  }
+
+  private scheduleIdleDisconnect(): void {
+    if (this.hasSubscriptions() || this.idleTimer) return;
+
+    this.idleTimer = setTimeout(() => {
+      this.idleTimer = null;
+      if (!this.hasSubscriptions() && this.socket) {
+        console.log('[XRPL-WS] No active subscriptions, closing socket');
+        this.socket.close();
+      }
+    }, IDLE_DISCONNECT_MS);
+  }
+
+  private cancelIdleDisconnect(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+
+  private rejectPending(error: Error): void {
+    this.pending.forEach(request => {
+      clearTimeout(request.timer);
+      request.reject(error);
+    });
+    this.pending.clear();
+  }
+
+  private handleMessage(raw: string): void {
+    let message: any;
+    try {
+      message = JSON.parse(raw);
+    } catch (error) {
+      console.error('[XRPL-WS] Could not parse message:', error);
+      return;
+    }
+
+    if (message.type === 'response') {
+      const request = this.pending.get(message.id);
+      if (!request) return;
+      this.pending.delete(message.id);
+      clearTimeout(request.timer);
+
+      if (message.status === 'success') {
+        request.resolve(message.result);
+      } else {
+        const errorMsg = message.error_message || message.error || 'Unknown error';
+        request.reject(new Error(`XRPL API error: ${errorMsg}`));
+      }
+      return;
+    }
+
+    if (message.type === 'ledgerClosed') {
+      this.ledgerListeners.forEach(listener => listener(message as LedgerClosedEvent));
+      return;
+    }
+
+    if (message.type === 'transaction') {
+      const affected = getAffectedAccounts(message.meta);
+      // The sending account is always affected, even if only its sequence changed
+      if (message.transaction?.Account) {
+        affected.add(message.transaction.Account);
+      }
+
+      const event: AccountTransactionEvent = {
+        ledger_index: message.ledger_index,
+        validated: Boolean(message.validated),
+        engine_result: message.engine_result,
+        transaction: message.transaction,
+        meta: message.meta,
+        affectedAccounts: [...affected].filter(account => this.accountRefs.has(account))
+      };
+      this.transactionListeners.forEach(listener => listener(event));
+    }
+  }
+}
+
+let sharedClient: XRPLSocketClient | null = null;
+
+// All views share one socket so subscriptions are multiplexed
+export function getXRPLSocket(): XRPLSocketClient {
+  if (!sharedClient) {
+    const client = new XRPLSocketClient(getActiveNetwork().webSocketServers);
+    subscribeToNetwork(network => client.setServers(network.webSocketServers));
+    sharedClient = client;
+  }
+  return sharedClient;
+}
+
+export type { XRPLSocketClient };
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import Header from '@/components/Header';
 import Footer from '@/components/Footer';
 import TokenList from '@/components/TokenList';
@@ -6,13 +6,17 @@ import TokenMetrics from '@/components/TokenMetrics';
 import WalletHoldings from '@/components/WalletHoldings';
 import TokenConfigDialog from '@/components/TokenConfigDialog';
 import { Card } from '@/components/ui/card';
-import { ArrowLeft } from 'lucide-react';
+import { ArrowLeft, FlaskConical } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { toast } from 'sonner';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { useNetwork } from '@/hooks/useNetwork';
+import type { ClassicAddress } from '@/lib/addressCodec';
 
 export type ViewState = 'tokens' | 'metrics' | 'holdings';
 
 export interface Token {
+  // Currency code as the ledger returns it; render with Currency.display()
   currency: string;
   issuer: string;
   balance: string;
@@ -23,17 +27,25 @@ export interface Token {
 function Dashboard() {
   const [currentView, setCurrentView] = useState<ViewState>('tokens');
   const [selectedToken, setSelectedToken] = useState<Token | null>(null);
-  const [selectedWallet, setSelectedWallet] = useState<string | null>(null);
+  const [selectedWallet, setSelectedWallet] = useState<ClassicAddress | null>(null);
   const [isPublishing, setIsPublishing] = useState(false);
   const [configDialogOpen, setConfigDialogOpen] = useState(false);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
+  const network = useNetwork();
+
+  // Tokens and wallets are per network, so drill-down state can't carry over
+  useEffect(() => {
+    setCurrentView('tokens');
+    setSelectedToken(null);
+    setSelectedWallet(null);
+  }, [network.id]);
 
   const handleTokenSelect = (token: Token) => {
     setSelectedToken(token);
     setCurrentView('metrics');
   };
 
-  const handleWalletSelect = (wallet: string) => {
+  const handleWalletSelect = (wallet: ClassicAddress) => {
     setSelectedWallet(wallet);
     setCurrentView('holdings');
   };
@@ -85,6 +97,16 @@ function Dashboard() {
       />
       
       <main className="flex-1 container mx-auto px-4 py-8">
+        {!network.isProduction && (
+          <Alert className="mb-6 border-chart-4/50 bg-chart-4/10">
+            <FlaskConical className="h-4 w-4" />
+            <AlertTitle>{network.name} data</AlertTitle>
+            <AlertDescription>
+              You are connected to {network.name.toLowerCase()}, not mainnet. Balances shown here have no real value.
+            </AlertDescription>
+          </Alert>
+        )}
+
         {currentView !== 'tokens' && (
           <Button
             variant="ghost"
@@ -96,7 +118,7 @@ function Dashboard() {
           </Button>
         )}
 
-        <Card className="border-border/50 shadow-lg">
+        <Card key={network.id} className="border-border/50 shadow-lg">
           {currentView === 'tokens' && (
             <TokenList 
               onTokenSelect={handleTokenSelect}